@@ -1,4 +1,5 @@
 from ._version import __version__
+from .handlers import setup_handlers
 
 
 def _jupyter_labextension_paths():
@@ -6,3 +7,21 @@ def _jupyter_labextension_paths():
         "src": "labextension",
         "dest": "myextension"
     }]
+
+
+def _jupyter_server_extension_points():
+    return [{
+        "module": "jupyterlab_claude_code_refresh"
+    }]
+
+
+def _load_jupyter_server_extension(server_app):
+    """Register the file watcher endpoints with the Jupyter server."""
+    manager = setup_handlers(server_app.web_app, server_app.root_dir)
+    if manager.available:
+        server_app.log.info("Claude Code Refresh: server-side file watcher enabled")
+    else:
+        server_app.log.warning(
+            "Claude Code Refresh: watchdog is not installed, "
+            "the frontend will poll for changes instead"
+        )
@@ -0,0 +1,126 @@
+"""Work out which tool last wrote a file: Claude Code, git or something else."""
+
+import json
+import os
+import time
+
+from jupyter_core.paths import jupyter_runtime_dir
+
+# Seconds between a recorded edit and the file's mtime for it to count
+CLAUDE_WINDOW = 30
+GIT_WINDOW = 5
+
+# Recorded edits older than this are dropped from the marker file
+MARKER_MAX_AGE = 3600
+
+
+def marker_path():
+    """Path of the file where the Claude Code hook records its edits."""
+    return os.path.join(jupyter_runtime_dir(), "claude_code_refresh_edits.json")
+
+
+def read_markers(path=None):
+    """Read the recorded edits, as a dict of absolute path -> timestamp."""
+    try:
+        with open(path or marker_path(), encoding="utf-8") as f:
+            markers = json.load(f)
+    except (OSError, ValueError):
+        return {}
+    return markers if isinstance(markers, dict) else {}
+
+
+def record_edit(file_path, path=None):
+    """Record that Claude Code just wrote a file (called from the hook)."""
+    path = path or marker_path()
+    now = time.time()
+    markers = {
+        p: t
+        for p, t in read_markers(path).items()
+        if isinstance(t, (int, float)) and now - t < MARKER_MAX_AGE
+    }
+    markers[os.path.realpath(file_path)] = now
+
+    os.makedirs(os.path.dirname(path), exist_ok=True)
+    tmp_path = f"{path}.{os.getpid()}.tmp"
+    with open(tmp_path, "w", encoding="utf-8") as f:
+        json.dump(markers, f)
+    os.replace(tmp_path, path)
+
+
+def _find_git_dir(os_path):
+    """Find the git directory of the repository containing a file, if any."""
+    directory = os.path.dirname(os.path.abspath(os_path))
+    while True:
+        candidate = os.path.join(directory, ".git")
+        if os.path.isdir(candidate):
+            return candidate
+        if os.path.isfile(candidate):
+            # Worktrees and submodules point at their git directory
+            try:
+                with open(candidate, encoding="utf-8") as f:
+                    line = f.read().strip()
+            except OSError:
+                return None
+            if line.startswith("gitdir:"):
+                return os.path.normpath(
+                    os.path.join(directory, line[len("gitdir:"):].strip())
+                )
+            return None
+        parent = os.path.dirname(directory)
+        if parent == directory:
+            return None
+        directory = parent
+
+
+def _last_head_move(git_dir):
+    """Time of the last HEAD move recorded in the reflog, if any."""
+    try:
+        with open(os.path.join(git_dir, "logs", "HEAD"), "rb") as f:
+            f.seek(0, os.SEEK_END)
+            f.seek(max(0, f.tell() - 4096))
+            lines = f.read().splitlines()
+    except OSError:
+        return None
+    if not lines:
+        return None
+
+    # "<old> <new> <name> <<email>> <time> <zone>\t<message>"
+    entry = lines[-1].split(b"\t", 1)[0].split()
+    try:
+        return float(entry[-2])
+    except (IndexError, ValueError):
+        return None
+
+
+def _git_touched(os_path, mtime):
+    """Whether git moved HEAD when the file changed.
+
+    Checkouts, resets, merges, rebases and pulls move HEAD, which the reflog
+    records. The index is left out: commands that only read the working
+    tree, like `git status`, rewrite it too.
+    """
+    git_dir = _find_git_dir(os_path)
+    if git_dir is None:
+        return False
+
+    moved = _last_head_move(git_dir)
+    return moved is not None and abs(moved - mtime) <= GIT_WINDOW
+
+
+def attribute(os_path, markers=None):
+    """Attribute the last write of a file to "claude", "git" or "other"."""
+    try:
+        mtime = os.path.getmtime(os_path)
+    except OSError:
+        return {"source": "other"}
+
+    if markers is None:
+        markers = read_markers()
+    edited = markers.get(os.path.realpath(os_path))
+    if isinstance(edited, (int, float)) and abs(edited - mtime) <= CLAUDE_WINDOW:
+        return {"source": "claude", "time": edited}
+
+    if _git_touched(os_path, mtime):
+        return {"source": "git"}
+
+    return {"source": "other"}
@@ -0,0 +1,45 @@
+"""Track the edits external agents announce through the edit endpoint."""
+
+import threading
+import time
+
+# Announced edits not reported done within this many seconds are dropped
+EDIT_TIMEOUT = 120
+
+
+class EditRegistry:
+    """Keep the files an agent announced it is editing.
+
+    Claude Code hooks announce "editing path X" before a tool writes a file
+    and "done with X" afterwards. Each announcement is pushed to the clients
+    watching the file as an ``editing`` or ``edited`` event.
+    """
+
+    def __init__(self, manager):
+        self._manager = manager
+        self._active = {}  # API path -> start time
+        self._lock = threading.Lock()
+
+    def start(self, path):
+        """Record that an agent started editing a file."""
+        with self._lock:
+            self._active[path] = time.time()
+        self._manager.dispatch("editing", self._manager.to_os_path(path))
+
+    def done(self, path):
+        """Record that an agent finished editing a file."""
+        with self._lock:
+            self._active.pop(path, None)
+        self._manager.dispatch("edited", self._manager.to_os_path(path))
+
+    def active(self, paths=None):
+        """List the files being edited, optionally among the given paths."""
+        now = time.time()
+        with self._lock:
+            for path, started in list(self._active.items()):
+                if now - started > EDIT_TIMEOUT:
+                    del self._active[path]
+            active = set(self._active)
+        if paths is not None:
+            active &= set(paths)
+        return sorted(active)
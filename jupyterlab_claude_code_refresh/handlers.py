@@ -0,0 +1,165 @@
+import json
+import os
+
+import tornado
+from jupyter_server.base.handlers import APIHandler, JupyterHandler
+from jupyter_server.base.websocket import WebSocketMixin
+from jupyter_server.utils import url_path_join
+from tornado.ioloop import IOLoop
+from tornado.websocket import WebSocketHandler
+
+from .attribution import attribute
+from .edits import EditRegistry
+from .watcher import WatchManager
+
+
+class StatusHandler(APIHandler):
+    """Report that the server extension is installed."""
+
+    def initialize(self, manager):
+        self.manager = manager
+
+    @tornado.web.authenticated
+    def get(self):
+        self.finish(json.dumps({"watcher": self.manager.available}))
+
+
+class AttributionHandler(APIHandler):
+    """Report which tool last wrote a file: Claude Code, git or other."""
+
+    def initialize(self, manager):
+        self.manager = manager
+
+    @tornado.web.authenticated
+    def get(self):
+        path = self.manager.normalize_path(self.get_query_argument("path", ""))
+        if path is None:
+            raise tornado.web.HTTPError(400, "Invalid path")
+        self.finish(json.dumps(attribute(self.manager.to_os_path(path))))
+
+
+class EditHandler(APIHandler):
+    """Let agents announce the files they are editing.
+
+    ``POST {"path": ..., "action": "start" | "done"}`` with an API path or
+    an absolute path under the server root; ``GET`` lists the API paths
+    being edited.
+    """
+
+    def initialize(self, edits, manager):
+        self.edits = edits
+        self.manager = manager
+
+    @tornado.web.authenticated
+    def get(self):
+        self.finish(json.dumps({"paths": self.edits.active()}))
+
+    @tornado.web.authenticated
+    def post(self):
+        data = self.get_json_body() or {}
+        path = data.get("path")
+        action = data.get("action")
+        if not isinstance(path, str) or not path:
+            raise tornado.web.HTTPError(400, "Invalid path")
+        if action not in ("start", "done"):
+            raise tornado.web.HTTPError(400, "Invalid action")
+
+        if not os.path.isabs(path):
+            path = self.manager.to_os_path(path)
+        path = self.manager.to_api_path(path)
+        if path is None:
+            raise tornado.web.HTTPError(400, "Path outside the server root")
+
+        if action == "start":
+            self.edits.start(path)
+        else:
+            self.edits.done(path)
+        self.finish(json.dumps({"path": path, "editing": action == "start"}))
+
+
+class WatchHandler(WebSocketMixin, WebSocketHandler, JupyterHandler):
+    """Push file change events for the paths a client has open.
+
+    The client sends ``{"action": "watch", "paths": [...]}`` with the full
+    set of open paths whenever it changes, and receives one message per
+    change: ``{"type": "modified" | "deleted" | "moved", "path": ...}``.
+    Edits announced through the edit endpoint are sent as ``editing`` and
+    ``edited`` events, and edits in progress are sent again whenever the
+    watched paths change.
+    """
+
+    def initialize(self, manager, edits):
+        self.manager = manager
+        self.edits = edits
+        self._loop = None
+
+    async def get(self, *args, **kwargs):
+        if self.current_user is None:
+            raise tornado.web.HTTPError(403)
+        return await super().get(*args, **kwargs)
+
+    def open(self, *args, **kwargs):
+        self._loop = IOLoop.current()
+        super().open(*args, **kwargs)
+
+    def on_message(self, message):
+        try:
+            data = json.loads(message)
+        except ValueError:
+            self.log.warning("Claude Code Refresh: invalid watch message")
+            return
+
+        if data.get("action") == "watch":
+            paths = [p for p in data.get("paths", []) if isinstance(p, str)]
+            outside = [p for p in paths if self.manager.normalize_path(p) is None]
+            if outside:
+                self.log.warning(
+                    "Claude Code Refresh: not watching paths outside the root: %s",
+                    outside,
+                )
+            watched = self.manager.set_paths(self, paths)
+            for path in self.edits.active(watched):
+                self.notify({"type": "editing", "path": path})
+
+    def on_close(self):
+        self.manager.remove_client(self)
+
+    def notify(self, event):
+        """Send an event to the client (safe to call from any thread)."""
+        if self._loop is not None:
+            self._loop.add_callback(self._send, event)
+
+    def _send(self, event):
+        if self.ws_connection is None:
+            return
+        self.write_message(json.dumps(event))
+
+
+def setup_handlers(web_app, root_dir):
+    manager = WatchManager(root_dir)
+    edits = EditRegistry(manager)
+
+    host_pattern = ".*$"
+    base_url = web_app.settings["base_url"]
+    route = url_path_join(base_url, "jupyterlab-claude-code-refresh")
+    handlers = [
+        (url_path_join(route, "status"), StatusHandler, {"manager": manager}),
+        (
+            url_path_join(route, "attribution"),
+            AttributionHandler,
+            {"manager": manager},
+        ),
+        (
+            url_path_join(route, "edits"),
+            EditHandler,
+            {"edits": edits, "manager": manager},
+        ),
+        (
+            url_path_join(route, "watch"),
+            WatchHandler,
+            {"manager": manager, "edits": edits},
+        ),
+    ]
+    web_app.add_handlers(host_pattern, handlers)
+
+    return manager
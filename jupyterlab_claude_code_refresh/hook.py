@@ -0,0 +1,126 @@
+"""Claude Code hook announcing and recording the files Claude Code edits.
+
+Add it as a PreToolUse and PostToolUse hook in Claude Code's settings::
+
+    {
+      "hooks": {
+        "PreToolUse": [
+          {
+            "matcher": "Edit|MultiEdit|Write|NotebookEdit",
+            "hooks": [
+              {
+                "type": "command",
+                "command": "python -m jupyterlab_claude_code_refresh.hook"
+              }
+            ]
+          }
+        ],
+        "PostToolUse": [
+          {
+            "matcher": "Edit|MultiEdit|Write|NotebookEdit",
+            "hooks": [
+              {
+                "type": "command",
+                "command": "python -m jupyterlab_claude_code_refresh.hook"
+              }
+            ]
+          }
+        ]
+      }
+    }
+
+The hook reads the tool call from stdin. Before the tool runs, it tells the
+running Jupyter servers that the file is being edited, so JupyterLab locks
+it; afterwards it records the edited path, so the server extension can tell
+Claude Code's edits from other external changes, and reports the edit done.
+"""
+
+import json
+import os
+import sys
+import urllib.request
+
+from .attribution import record_edit
+
+# Seconds to wait for each Jupyter server, so a stuck server never blocks
+# Claude Code for long
+ANNOUNCE_TIMEOUT = 2
+
+
+def edited_path(payload):
+    """Get the absolute path of the file a tool call edited, if any."""
+    tool_input = payload.get("tool_input") or {}
+    path = tool_input.get("file_path") or tool_input.get("notebook_path")
+    if not isinstance(path, str) or not path:
+        return None
+    return os.path.join(payload.get("cwd") or os.getcwd(), path)
+
+
+def running_servers():
+    """List the Jupyter servers running for the current user."""
+    try:
+        from jupyter_server.serverapp import list_running_servers
+    except ImportError:
+        return []
+    return list(list_running_servers())
+
+
+def announce_edit(path, action):
+    """Tell the servers whose root contains a file that its edit starts or is done."""
+    path = os.path.abspath(path)
+    body = json.dumps({"path": path, "action": action}).encode("utf-8")
+
+    for info in running_servers():
+        root_dir = os.path.abspath(info.get("root_dir") or "")
+        if os.path.commonpath([root_dir, path]) != root_dir:
+            continue
+
+        request = urllib.request.Request(
+            info["url"].rstrip("/") + "/jupyterlab-claude-code-refresh/edits",
+            data=body,
+            headers={
+                "Authorization": f"token {info.get('token', '')}",
+                "Content-Type": "application/json",
+            },
+            method="POST",
+        )
+        try:
+            with urllib.request.urlopen(request, timeout=ANNOUNCE_TIMEOUT):
+                pass
+        except (OSError, ValueError) as error:
+            # Servers without the extension answer 404; nothing to announce
+            print(
+                f"Claude Code Refresh: could not announce edit to "
+                f"{info.get('url')}: {error}",
+                file=sys.stderr,
+            )
+
+
+def main():
+    try:
+        payload = json.load(sys.stdin)
+    except ValueError:
+        return 0
+
+    path = edited_path(payload) if isinstance(payload, dict) else None
+    if not path:
+        return 0
+
+    if payload.get("hook_event_name") == "PreToolUse":
+        announce_edit(path, "start")
+        return 0
+
+    try:
+        record_edit(path)
+    except OSError as error:
+        # Never block Claude Code because the marker can't be written
+        print(
+            f"Claude Code Refresh: could not record edit: {error}",
+            file=sys.stderr,
+        )
+    announce_edit(path, "done")
+    return 0
+
+
+if __name__ == "__main__":
+    sys.exit(main())
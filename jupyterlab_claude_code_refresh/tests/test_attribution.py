@@ -0,0 +1,82 @@
+import os
+import subprocess
+import time
+
+import pytest
+
+pytest.importorskip("jupyter_server")
+
+from jupyterlab_claude_code_refresh.attribution import attribute  # noqa: E402
+
+
+def git(repo, *args):
+    subprocess.run(
+        ["git", "-c", "user.name=Test", "-c", "user.email=test@example.com", *args],
+        cwd=repo,
+        check=True,
+        capture_output=True,
+    )
+
+
+@pytest.fixture
+def repo(tmp_path):
+    git(tmp_path, "init", "-q")
+    (tmp_path / "notebook.ipynb").write_text("{}", encoding="utf-8")
+    git(tmp_path, "add", "notebook.ipynb")
+    git(tmp_path, "commit", "-q", "-m", "Add notebook")
+    return tmp_path
+
+
+def backdate_head(repo, seconds):
+    """Move the time of the last reflog entry back, as for an older commit."""
+    log = repo / ".git" / "logs" / "HEAD"
+    lines = log.read_text(encoding="utf-8").splitlines()
+    entry, message = lines[-1].split("\t", 1)
+    fields = entry.split(" ")
+    fields[-2] = str(int(fields[-2]) - seconds)
+    lines[-1] = " ".join(fields) + "\t" + message
+    log.write_text("\n".join(lines) + "\n", encoding="utf-8")
+
+
+def test_edit_outside_git(tmp_path):
+    path = tmp_path / "notebook.ipynb"
+    path.write_text("{}", encoding="utf-8")
+    assert attribute(str(path), markers={}) == {"source": "other"}
+
+
+def test_edit_after_git_status(repo):
+    backdate_head(repo, 60)
+    path = repo / "notebook.ipynb"
+    path.write_text('{"cells": []}', encoding="utf-8")
+
+    # Refreshes the index, without moving HEAD
+    git(repo, "status")
+
+    assert attribute(str(path), markers={}) == {"source": "other"}
+
+
+def test_checkout(repo):
+    path = repo / "notebook.ipynb"
+    git(repo, "checkout", "-q", "-b", "other")
+    path.write_text('{"cells": []}', encoding="utf-8")
+    git(repo, "commit", "-q", "-am", "Change notebook")
+
+    git(repo, "checkout", "-q", "-")
+
+    assert attribute(str(path), markers={}) == {"source": "git"}
+
+
+def test_claude_code_edit(repo):
+    path = repo / "notebook.ipynb"
+    path.write_text('{"cells": []}', encoding="utf-8")
+    markers = {os.path.realpath(path): time.time()}
+
+    result = attribute(str(path), markers=markers)
+
+    assert result["source"] == "claude"
+
+
+def test_missing_file(tmp_path):
+    assert attribute(str(tmp_path / "missing.ipynb"), markers={}) == {
+        "source": "other"
+    }
@@ -0,0 +1,98 @@
+import asyncio
+import json
+
+import pytest
+from tornado.httpclient import HTTPClientError
+
+
+async def test_status(jp_fetch):
+    response = await jp_fetch("jupyterlab-claude-code-refresh", "status")
+
+    assert response.code == 200
+    assert set(json.loads(response.body)) == {"watcher"}
+
+
+async def test_attribution(jp_fetch, jp_root_dir):
+    (jp_root_dir / "a.ipynb").write_text("{}", encoding="utf-8")
+
+    response = await jp_fetch(
+        "jupyterlab-claude-code-refresh", "attribution", params={"path": "a.ipynb"}
+    )
+
+    assert json.loads(response.body)["source"] in ("claude", "git", "other")
+
+
+@pytest.mark.parametrize("path", ["", "../outside.ipynb", "a/../../outside.ipynb"])
+async def test_attribution_rejects_paths_outside_the_root(jp_fetch, path):
+    with pytest.raises(HTTPClientError) as error:
+        await jp_fetch(
+            "jupyterlab-claude-code-refresh", "attribution", params={"path": path}
+        )
+
+    assert error.value.code == 400
+
+
+async def test_edits(jp_fetch):
+    async def announce(path, action):
+        response = await jp_fetch(
+            "jupyterlab-claude-code-refresh",
+            "edits",
+            method="POST",
+            body=json.dumps({"path": path, "action": action}),
+        )
+        return json.loads(response.body)
+
+    assert await announce("a.ipynb", "start") == {"path": "a.ipynb", "editing": True}
+    response = await jp_fetch("jupyterlab-claude-code-refresh", "edits")
+    assert json.loads(response.body) == {"paths": ["a.ipynb"]}
+
+    assert await announce("a.ipynb", "done") == {"path": "a.ipynb", "editing": False}
+    response = await jp_fetch("jupyterlab-claude-code-refresh", "edits")
+    assert json.loads(response.body) == {"paths": []}
+
+
+async def test_edits_reject_paths_outside_the_root(jp_fetch):
+    with pytest.raises(HTTPClientError) as error:
+        await jp_fetch(
+            "jupyterlab-claude-code-refresh",
+            "edits",
+            method="POST",
+            body=json.dumps({"path": "../outside.ipynb", "action": "start"}),
+        )
+
+    assert error.value.code == 400
+
+
+async def test_watch_sends_edits_in_progress(jp_fetch, jp_ws_fetch):
+    await jp_fetch(
+        "jupyterlab-claude-code-refresh",
+        "edits",
+        method="POST",
+        body=json.dumps({"path": "a.ipynb", "action": "start"}),
+    )
+    ws = await jp_ws_fetch("jupyterlab-claude-code-refresh", "watch")
+
+    await ws.write_message(
+        json.dumps({"action": "watch", "paths": ["a.ipynb", "../a.ipynb"]})
+    )
+    message = await asyncio.wait_for(ws.read_message(), 10)
+
+    assert json.loads(message) == {"type": "editing", "path": "a.ipynb"}
+    ws.close()
+
+
+async def test_watch_reports_file_changes(jp_root_dir, jp_ws_fetch):
+    pytest.importorskip("watchdog")
+    path = jp_root_dir / "a.ipynb"
+    path.write_text("{}", encoding="utf-8")
+    ws = await jp_ws_fetch("jupyterlab-claude-code-refresh", "watch")
+    await ws.write_message(json.dumps({"action": "watch", "paths": ["a.ipynb"]}))
+    # Let the server schedule the watch before changing the file
+    await asyncio.sleep(0.5)
+
+    path.write_text('{"cells": []}', encoding="utf-8")
+    message = json.loads(await asyncio.wait_for(ws.read_message(), 10))
+
+    assert message["type"] == "modified"
+    assert message["path"] == "a.ipynb"
+    ws.close()
@@ -0,0 +1,87 @@
+import time
+
+import pytest
+
+from jupyterlab_claude_code_refresh.watcher import WatchManager
+
+
+class Client:
+    def __init__(self):
+        self.events = []
+
+    def notify(self, event):
+        self.events.append(event)
+
+
+@pytest.fixture
+def manager(tmp_path):
+    manager = WatchManager(str(tmp_path / "root"))
+    yield manager
+    manager.stop()
+
+
+def test_to_api_path(manager, tmp_path):
+    root = tmp_path / "root"
+    assert manager.to_api_path(str(root / "a" / "b.ipynb")) == "a/b.ipynb"
+    assert manager.to_api_path(str(root / "..foo.ipynb")) == "..foo.ipynb"
+    assert manager.to_api_path(str(tmp_path / "outside.ipynb")) is None
+
+
+def test_normalize_path(manager):
+    assert manager.normalize_path("a//b.ipynb") == "a/b.ipynb"
+    assert manager.normalize_path("a/../b.ipynb") == "b.ipynb"
+    assert manager.normalize_path("../outside.ipynb") is None
+    assert manager.normalize_path("a/../../outside.ipynb") is None
+    assert manager.normalize_path("") is None
+
+
+def test_set_paths_skips_paths_outside_the_root(manager):
+    client = Client()
+
+    watched = manager.set_paths(
+        client, ["a.ipynb", "../outside.ipynb", "sub/../../etc/passwd"]
+    )
+
+    assert watched == ["a.ipynb"]
+
+
+def test_dispatch_to_watching_clients(manager, tmp_path):
+    root = tmp_path / "root"
+    watching, other = Client(), Client()
+    manager.set_paths(watching, ["a.ipynb"])
+    manager.set_paths(other, ["b.ipynb"])
+
+    manager.dispatch("deleted", str(root / "a.ipynb"))
+
+    assert watching.events == [{"type": "deleted", "path": "a.ipynb"}]
+    assert other.events == []
+
+
+def test_dispatch_after_client_removed(manager, tmp_path):
+    client = Client()
+    manager.set_paths(client, ["a.ipynb"])
+    manager.remove_client(client)
+
+    manager.dispatch("deleted", str(tmp_path / "root" / "a.ipynb"))
+
+    assert client.events == []
+
+
+def test_file_change_is_reported(manager, tmp_path):
+    if not manager.available:
+        pytest.skip("watchdog is not installed")
+    root = tmp_path / "root"
+    root.mkdir()
+    path = root / "a.ipynb"
+    path.write_text("{}", encoding="utf-8")
+    client = Client()
+    manager.set_paths(client, ["a.ipynb"])
+
+    path.write_text('{"cells": []}', encoding="utf-8")
+
+    deadline = time.time() + 10
+    while not client.events and time.time() < deadline:
+        time.sleep(0.1)
+    assert client.events
+    assert client.events[0]["type"] == "modified"
+    assert client.events[0]["path"] == "a.ipynb"
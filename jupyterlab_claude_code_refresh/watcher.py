@@ -0,0 +1,145 @@
+"""Watch open files on disk and report changes to connected clients."""
+
+import os
+import threading
+
+try:
+    from watchdog.events import FileSystemEventHandler
+    from watchdog.observers import Observer
+except ImportError:  # pragma: no cover
+    FileSystemEventHandler = object
+    Observer = None
+
+
+class _EventHandler(FileSystemEventHandler):
+    """Forward watchdog events to the watch manager."""
+
+    def __init__(self, manager):
+        super().__init__()
+        self._manager = manager
+
+    def on_any_event(self, event):
+        if event.is_directory:
+            return
+        if event.event_type == "moved":
+            # Atomic writes replace the file through a rename
+            self._manager.dispatch("moved", event.src_path, event.dest_path)
+            self._manager.dispatch("modified", event.dest_path)
+        elif event.event_type in ("modified", "created"):
+            self._manager.dispatch("modified", event.src_path)
+        elif event.event_type == "deleted":
+            self._manager.dispatch("deleted", event.src_path)
+
+
+class WatchManager:
+    """Watch the files clients have open, through their parent directories.
+
+    Each client registers the API paths it has open; directories are watched
+    once no matter how many clients or files share them. Events are delivered
+    by calling ``client.notify(event)`` from the watchdog thread.
+    """
+
+    def __init__(self, root_dir):
+        self._root_dir = os.path.abspath(root_dir)
+        self._clients = {}  # client -> set of API paths
+        self._watches = {}  # directory -> watchdog watch
+        self._observer = None
+        self._lock = threading.Lock()
+
+    @property
+    def available(self):
+        """Whether watchdog is installed."""
+        return Observer is not None
+
+    def to_os_path(self, path):
+        """Convert an API path to an absolute OS path."""
+        parts = [part for part in path.split("/") if part]
+        return os.path.join(self._root_dir, *parts)
+
+    def to_api_path(self, os_path):
+        """Convert an OS path to an API path, or None if outside the root."""
+        relative = os.path.relpath(os.path.abspath(os_path), self._root_dir)
+        if relative == os.pardir or relative.startswith(os.pardir + os.sep):
+            return None
+        return relative.replace(os.sep, "/")
+
+    def normalize_path(self, path):
+        """Normalize an API path, or None if it resolves outside the root.
+
+        The root itself, which is not a file, counts as outside.
+        """
+        api_path = self.to_api_path(self.to_os_path(path))
+        return None if api_path == os.curdir else api_path
+
+    def set_paths(self, client, paths):
+        """Replace the set of paths watched for a client.
+
+        Paths resolving outside the server root, through ``..`` segments,
+        are skipped. Returns the normalized API paths watched.
+        """
+        watched = {self.normalize_path(path) for path in paths}
+        watched.discard(None)
+
+        with self._lock:
+            self._clients[client] = watched
+            self._update_watches()
+        return sorted(watched)
+
+    def remove_client(self, client):
+        """Stop watching the paths of a disconnected client."""
+        with self._lock:
+            self._clients.pop(client, None)
+            self._update_watches()
+
+    def dispatch(self, event_type, os_path, dest_os_path=None):
+        """Send a file event to every client watching the file."""
+        path = self.to_api_path(os_path)
+        if path is None:
+            return
+
+        event = {"type": event_type, "path": path}
+        if dest_os_path is not None:
+            event["newPath"] = self.to_api_path(dest_os_path)
+        if event_type != "deleted" and os.path.exists(os_path):
+            event["mtime"] = os.path.getmtime(os_path)
+
+        with self._lock:
+            clients = [c for c, paths in self._clients.items() if path in paths]
+
+        for client in clients:
+            client.notify(event)
+
+    def stop(self):
+        """Stop the observer thread."""
+        with self._lock:
+            if self._observer is not None:
+                self._observer.stop()
+                self._observer = None
+            self._watches.clear()
+
+    def _update_watches(self):
+        """Schedule and unschedule directories to match the watched paths."""
+        if not self.available:
+            return
+
+        directories = {
+            os.path.dirname(self.to_os_path(path))
+            for paths in self._clients.values()
+            for path in paths
+        }
+
+        if self._observer is None:
+            if not directories:
+                return
+            self._observer = Observer()
+            self._observer.daemon = True
+            self._observer.start()
+
+        for directory in set(self._watches) - directories:
+            self._observer.unschedule(self._watches.pop(directory))
+
+        for directory in directories - set(self._watches):
+            if os.path.isdir(directory):
+                self._watches[directory] = self._observer.schedule(
+                    _EventHandler(self), directory, recursive=False
+                )
@@ -0,0 +1,16 @@
+import { backupDirectory } from '../backup';
+
+describe('backupDirectory', () => {
+  it('should keep the backups next to the file by default', () => {
+    const options = { directory: '', maxBackups: 5 };
+    expect(backupDirectory('work/analysis.ipynb', options)).toBe('work');
+    expect(backupDirectory('analysis.ipynb', options)).toBe('');
+  });
+
+  it('should mirror the directory of the file in the backup directory', () => {
+    const options = { directory: ' backups/ ', maxBackups: 5 };
+    expect(backupDirectory('a/analysis.ipynb', options)).toBe('backups/a');
+    expect(backupDirectory('b/analysis.ipynb', options)).toBe('backups/b');
+    expect(backupDirectory('analysis.ipynb', options)).toBe('backups');
+  });
+});
@@ -0,0 +1,140 @@
+import * as nbformat from '@jupyterlab/nbformat';
+
+import { composeNotebook, diffLines, diffNotebooks } from '../diff';
+
+function code(id: string, source: string, outputs: nbformat.IOutput[] = []) {
+  return {
+    id,
+    cell_type: 'code',
+    source,
+    metadata: {},
+    execution_count: null,
+    outputs
+  } as nbformat.ICodeCell;
+}
+
+function notebook(...cells: nbformat.ICell[]): nbformat.INotebookContent {
+  return { cells, metadata: {}, nbformat: 4, nbformat_minor: 5 };
+}
+
+describe('diffLines', () => {
+  it('should align the common lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'delete', text: 'b' },
+      { type: 'insert', text: 'x' },
+      { type: 'equal', text: 'c' }
+    ]);
+  });
+
+  it('should keep the longest common subsequence', () => {
+    const lines = diffLines('a\nb\nc\nd', 'b\nd\ne');
+    expect(lines.filter(line => line.type === 'equal')).toEqual([
+      { type: 'equal', text: 'b' },
+      { type: 'equal', text: 'd' }
+    ]);
+    expect(lines.filter(line => line.type === 'delete')).toEqual([
+      { type: 'delete', text: 'a' },
+      { type: 'delete', text: 'c' }
+    ]);
+    expect(lines.filter(line => line.type === 'insert')).toEqual([
+      { type: 'insert', text: 'e' }
+    ]);
+  });
+
+  it('should handle empty strings', () => {
+    expect(diffLines('', '')).toEqual([]);
+    expect(diffLines('', 'a')).toEqual([{ type: 'insert', text: 'a' }]);
+    expect(diffLines('a', '')).toEqual([{ type: 'delete', text: 'a' }]);
+  });
+});
+
+describe('diffNotebooks', () => {
+  it('should report unchanged, modified, added and removed cells', () => {
+    const local = notebook(
+      code('a', 'x = 1'),
+      code('b', 'y = 2'),
+      code('c', 'z = 3')
+    );
+    const external = notebook(
+      code('a', 'x = 1'),
+      code('b', 'y = 20'),
+      code('d', 'w = 4')
+    );
+
+    expect(diffNotebooks(local, external).map(diff => diff.type)).toEqual([
+      'unchanged',
+      'modified',
+      'removed',
+      'added'
+    ]);
+  });
+
+  it('should flag source and output changes separately', () => {
+    const output: nbformat.IStream = {
+      output_type: 'stream',
+      name: 'stdout',
+      text: '1\n'
+    };
+    const [diff] = diffNotebooks(
+      notebook(code('a', 'print(1)')),
+      notebook(code('a', 'print(1)', [output]))
+    );
+
+    expect(diff.type).toBe('modified');
+    expect(diff.sourceChanged).toBe(false);
+    expect(diff.outputsChanged).toBe(true);
+  });
+
+  it('should ignore how multiline strings are split', () => {
+    const split = code('a', '');
+    split.source = ['x = 1\n', 'y = 2'];
+    const [diff] = diffNotebooks(
+      notebook(split),
+      notebook(code('a', 'x = 1\ny = 2'))
+    );
+
+    expect(diff.type).toBe('unchanged');
+  });
+
+  it('should pair cells without IDs at the same spot as edits', () => {
+    const local = notebook(code('', 'x = 1'));
+    const external = notebook(code('', 'x = 2'));
+    delete local.cells[0].id;
+    delete external.cells[0].id;
+
+    expect(diffNotebooks(local, external).map(diff => diff.type)).toEqual([
+      'modified'
+    ]);
+  });
+});
+
+describe('composeNotebook', () => {
+  it('should take the external side of accepted rows only', () => {
+    const local = notebook(code('a', 'x = 1'), code('b', 'y = 2'));
+    const external = notebook(code('a', 'x = 10'), code('c', 'z = 3'));
+    const diffs = diffNotebooks(local, external);
+
+    // Accept the edit of a, reject removing b and adding c
+    const composed = composeNotebook(external, diffs, [true, false, false]);
+
+    expect(composed.cells.map(cell => cell.source)).toEqual([
+      'x = 10',
+      'y = 2'
+    ]);
+  });
+
+  it('should keep a single copy of a moved cell', () => {
+    const local = notebook(code('a', 'x = 1'), code('b', 'y = 2'));
+    const external = notebook(code('b', 'y = 2'), code('a', 'x = 1'));
+    const diffs = diffNotebooks(local, external);
+
+    const composed = composeNotebook(
+      external,
+      diffs,
+      diffs.map(() => true)
+    );
+
+    expect(composed.cells.map(cell => cell.id)).toEqual(['b', 'a']);
+  });
+});
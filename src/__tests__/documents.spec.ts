@@ -0,0 +1,89 @@
+import { IDocumentManager } from '@jupyterlab/docmanager';
+import { Signal } from '@lumino/signaling';
+import { Widget } from '@lumino/widgets';
+
+import { DocumentContext, DocumentTracker, diskFormat } from '../documents';
+
+describe('diskFormat', () => {
+  it('should read text files as text', () => {
+    expect(diskFormat(null, [{ fileFormat: 'text' }])).toBe('text');
+  });
+
+  it('should read binary files as base64', () => {
+    expect(diskFormat(null, [{ fileFormat: 'base64' }])).toBe('base64');
+  });
+
+  it('should prefer the format of the last load', () => {
+    expect(diskFormat({ format: 'base64' }, [{ fileFormat: 'text' }])).toBe(
+      'base64'
+    );
+  });
+
+  it('should fall back on the file types after a save', () => {
+    expect(diskFormat({ format: null }, [{}, { fileFormat: 'base64' }])).toBe(
+      'base64'
+    );
+  });
+
+  it('should default to text for unknown files', () => {
+    expect(diskFormat(null, [])).toBe('text');
+  });
+});
+
+describe('DocumentTracker', () => {
+  const createTracker = () => {
+    // Factories are the senders of their signal
+    const factory: { name: string; widgetCreated?: Signal<any, Widget> } = {
+      name: 'Editor'
+    };
+    factory.widgetCreated = new Signal<any, Widget>(factory);
+    const context = { path: 'a.txt', disposed: new Signal<any, void>({}) };
+    const docManager = {
+      registry: {
+        widgetFactories: () => [factory],
+        changed: new Signal<any, any>({})
+      },
+      contextForWidget: () => context
+    } as unknown as IDocumentManager;
+    const tracker = new DocumentTracker(docManager);
+    return {
+      tracker,
+      context: context as unknown as DocumentContext,
+      create: () => {
+        const widget = new Widget();
+        factory.widgetCreated?.emit(widget);
+        return widget;
+      }
+    };
+  };
+
+  it('should track the views of a document once', () => {
+    const { tracker, context, create } = createTracker();
+    const opened = jest.fn();
+    tracker.opened.connect(opened);
+    const first = create();
+    const second = create();
+    expect(tracker.contexts).toEqual([context]);
+    expect(tracker.widgets(context)).toEqual([first, second]);
+    expect(opened).toHaveBeenCalledTimes(1);
+  });
+
+  it('should close a document with its last view', () => {
+    const { tracker, context, create } = createTracker();
+    const closed = jest.fn();
+    tracker.closed.connect(closed);
+    const first = create();
+    const second = create();
+    first.dispose();
+    expect(closed).not.toHaveBeenCalled();
+    second.dispose();
+    expect(closed).toHaveBeenCalledTimes(1);
+    expect(tracker.contexts).toEqual([]);
+  });
+
+  it('should know the factory of each view', () => {
+    const { tracker, create } = createTracker();
+    expect(tracker.factoryName(create())).toBe('Editor');
+    expect(tracker.factoryName(new Widget())).toBeUndefined();
+  });
+});
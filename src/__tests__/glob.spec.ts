@@ -0,0 +1,58 @@
+import { matchAnyGlob, matchGlob } from '../glob';
+
+describe('matchGlob', () => {
+  it('should match a single path segment with *', () => {
+    expect(matchGlob('analysis.ipynb', '*.ipynb')).toBe(true);
+    expect(matchGlob('work/analysis.ipynb', '*.ipynb')).toBe(false);
+  });
+
+  it('should match any number of directories with **', () => {
+    expect(matchGlob('analysis.ipynb', '**/*.ipynb')).toBe(true);
+    expect(matchGlob('a/b/analysis.ipynb', '**/*.ipynb')).toBe(true);
+    expect(matchGlob('a/b/analysis.py', '**/*.ipynb')).toBe(false);
+    expect(matchGlob('data/raw/file.csv', 'data/**')).toBe(true);
+    expect(matchGlob('other/file.csv', 'data/**')).toBe(false);
+  });
+
+  it('should match a single character with ?', () => {
+    expect(matchGlob('run1.py', 'run?.py')).toBe(true);
+    expect(matchGlob('run10.py', 'run?.py')).toBe(false);
+    expect(matchGlob('run/.py', 'run?.py')).toBe(false);
+  });
+
+  it('should match alternatives', () => {
+    expect(matchGlob('script.py', '*.{py,ipynb}')).toBe(true);
+    expect(matchGlob('notes.ipynb', '*.{py,ipynb}')).toBe(true);
+    expect(matchGlob('notes.md', '*.{py,ipynb}')).toBe(false);
+  });
+
+  it('should match wildcards within alternatives', () => {
+    expect(matchGlob('a/b/script.py', '**/{*.py,*.md}')).toBe(true);
+    expect(matchGlob('README.md', '**/{*.py,*.md}')).toBe(true);
+    expect(matchGlob('notes.ipynb', '**/{*.py,*.md}')).toBe(false);
+    expect(matchGlob('run1.py', '{run?,test}.py')).toBe(true);
+    expect(matchGlob('a/b.py', '{*}.py')).toBe(false);
+    expect(matchGlob('data/raw/x.csv', '{data/**,logs}')).toBe(true);
+  });
+
+  it('should match special characters literally', () => {
+    expect(matchGlob('a+b (1).ipynb', 'a+b (1).ipynb')).toBe(true);
+    expect(matchGlob('aipynb', 'a.ipynb')).toBe(false);
+    expect(matchGlob('{x}.py', '{x.py')).toBe(false);
+    expect(matchGlob('{x.py', '{x.py')).toBe(true);
+  });
+
+  it('should match the whole path', () => {
+    expect(matchGlob('old/analysis.ipynb.bak', '**/*.ipynb')).toBe(false);
+  });
+});
+
+describe('matchAnyGlob', () => {
+  it('should match any of the patterns', () => {
+    const patterns = ['**/*.py', '**/.ipynb_checkpoints/**'];
+    expect(matchAnyGlob('a/script.py', patterns)).toBe(true);
+    expect(matchAnyGlob('a/.ipynb_checkpoints/x.ipynb', patterns)).toBe(true);
+    expect(matchAnyGlob('a/x.ipynb', patterns)).toBe(false);
+    expect(matchAnyGlob('a/x.ipynb', [])).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import * as nbformat from '@jupyterlab/nbformat';
+
+import { hashNotebook, hashString } from '../hash';
+
+function notebook(...cells: nbformat.ICell[]): nbformat.INotebookContent {
+  return {
+    cells,
+    metadata: { kernelspec: { name: 'python3', display_name: 'Python 3' } },
+    nbformat: 4,
+    nbformat_minor: 5
+  };
+}
+
+describe('hashString', () => {
+  it('should tell strings apart', () => {
+    expect(hashString('x = 1')).toBe(hashString('x = 1'));
+    expect(hashString('x = 1')).not.toBe(hashString('x = 2'));
+  });
+});
+
+describe('hashNotebook', () => {
+  const cell = {
+    id: 'a',
+    cell_type: 'code',
+    source: 'x = 1\ny = 2',
+    metadata: { tags: ['setup'] },
+    execution_count: null,
+    outputs: []
+  } as nbformat.ICodeCell;
+
+  it('should ignore the key order', () => {
+    const reordered = {
+      outputs: [],
+      execution_count: null,
+      metadata: { tags: ['setup'] },
+      source: 'x = 1\ny = 2',
+      cell_type: 'code',
+      id: 'a'
+    } as nbformat.ICodeCell;
+    expect(hashNotebook(notebook(reordered))).toBe(
+      hashNotebook(notebook(cell))
+    );
+  });
+
+  it('should ignore how multiline strings are split', () => {
+    const split = { ...cell, source: ['x = 1\n', 'y = 2'] };
+    expect(hashNotebook(notebook(split))).toBe(hashNotebook(notebook(cell)));
+  });
+
+  it('should ignore cell IDs and the trusted flag', () => {
+    const other = {
+      ...cell,
+      id: 'b',
+      metadata: { ...cell.metadata, trusted: true }
+    };
+    expect(hashNotebook(notebook(other))).toBe(hashNotebook(notebook(cell)));
+  });
+
+  it('should change with the source', () => {
+    const edited = { ...cell, source: 'x = 1\ny = 3' };
+    expect(hashNotebook(notebook(edited))).not.toBe(
+      hashNotebook(notebook(cell))
+    );
+  });
+
+  it('should change with the cell order', () => {
+    const second = { ...cell, id: 'b', source: 'z = 3' };
+    expect(hashNotebook(notebook(second, cell))).not.toBe(
+      hashNotebook(notebook(cell, second))
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { Widget } from '@lumino/widgets';
+
+import { DocumentLock, DocumentLocks } from '../lock';
+
+describe('DocumentLock', () => {
+  const options = {
+    reason: 'quiet' as const,
+    message: 'Locked',
+    onOverride: jest.fn()
+  };
+
+  const createEditorWidget = () => {
+    const widget = new Widget();
+    const editorOptions: { [key: string]: unknown } = { readOnly: false };
+    const editor = {
+      getOption: (name: string) => editorOptions[name],
+      setOption: (name: string, value: unknown) => {
+        editorOptions[name] = value;
+      }
+    };
+    const child = document.createElement('div');
+    widget.node.appendChild(child);
+    return { widget: Object.assign(widget, { editor }), editorOptions, child };
+  };
+
+  it('should make the editor read-only until unlocked', () => {
+    const { widget, editorOptions } = createEditorWidget();
+    const lock = new DocumentLock(widget, options);
+    expect(editorOptions.readOnly).toBe(true);
+    lock.dispose();
+    expect(editorOptions.readOnly).toBe(false);
+  });
+
+  it('should make the content inert and show an overlay', () => {
+    const { widget, child } = createEditorWidget();
+    const lock = new DocumentLock(widget, options);
+    expect(child.inert).toBe(true);
+    expect(widget.node.querySelector('button')?.textContent).toBe('Unlock');
+    lock.dispose();
+    expect(child.inert).toBeFalsy();
+    expect(widget.node.querySelector('button')).toBeNull();
+  });
+});
+
+describe('DocumentLocks', () => {
+  it('should report the lock state of a path', () => {
+    const locks = new DocumentLocks();
+    const changed = jest.fn();
+    locks.changed.connect((sender, change) => changed(change));
+
+    locks.lock('a.ipynb', [new Widget()], {
+      reason: 'announced',
+      message: 'Editing',
+      onOverride: jest.fn()
+    });
+    expect(locks.reason('a.ipynb')).toBe('announced');
+    locks.rename('a.ipynb', 'b.ipynb');
+    expect(locks.paths).toEqual(['b.ipynb']);
+    locks.unlock('b.ipynb');
+    expect(locks.reason('b.ipynb')).toBeNull();
+    expect(changed).toHaveBeenLastCalledWith({
+      path: 'b.ipynb',
+      locked: false,
+      reason: null
+    });
+  });
+});
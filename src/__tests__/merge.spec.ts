@@ -0,0 +1,140 @@
+import * as nbformat from '@jupyterlab/nbformat';
+
+import { mergeNotebooks, resolveMerge } from '../merge';
+
+function code(id: string, source: string) {
+  return {
+    id,
+    cell_type: 'code',
+    source,
+    metadata: {},
+    execution_count: null,
+    outputs: []
+  } as nbformat.ICodeCell;
+}
+
+function notebook(...cells: nbformat.ICell[]): nbformat.INotebookContent {
+  return { cells, metadata: {}, nbformat: 4, nbformat_minor: 5 };
+}
+
+function sources(content: nbformat.INotebookContent): string[] {
+  return content.cells.map(cell => cell.source as string);
+}
+
+describe('mergeNotebooks', () => {
+  const base = notebook(code('a', 'x = 1'), code('b', 'y = 2'));
+
+  it('should merge changes made on one side only', () => {
+    const local = notebook(code('a', 'x = 10'), code('b', 'y = 2'));
+    const external = notebook(code('a', 'x = 1'), code('b', 'y = 20'));
+
+    const result = mergeNotebooks(base, local, external);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged).toBe(1);
+    expect(sources(resolveMerge(result, new Map()))).toEqual([
+      'x = 10',
+      'y = 20'
+    ]);
+  });
+
+  it('should not report the same change on both sides as a conflict', () => {
+    const local = notebook(code('a', 'x = 10'), code('b', 'y = 2'));
+    const external = notebook(code('a', 'x = 10'), code('b', 'y = 2'));
+
+    const result = mergeNotebooks(base, local, external);
+
+    expect(result.conflicts).toEqual([]);
+    expect(sources(resolveMerge(result, new Map()))).toEqual([
+      'x = 10',
+      'y = 2'
+    ]);
+  });
+
+  it('should report a cell changed differently on both sides', () => {
+    const local = notebook(code('a', 'x = 10'), code('b', 'y = 2'));
+    const external = notebook(code('a', 'x = 100'), code('b', 'y = 2'));
+
+    const result = mergeNotebooks(base, local, external);
+
+    expect(result.conflicts.map(conflict => conflict.id)).toEqual(['a']);
+    expect(result.cells[0]).toEqual({ cell: null, conflict: 'a' });
+    expect(sources(resolveMerge(result, new Map([['a', 'external']])))).toEqual(
+      ['x = 100', 'y = 2']
+    );
+    expect(sources(resolveMerge(result, new Map()))).toEqual([
+      'x = 10',
+      'y = 2'
+    ]);
+  });
+
+  it('should delete a cell deleted on one side and unchanged on the other', () => {
+    const local = notebook(code('a', 'x = 1'), code('b', 'y = 2'));
+    const external = notebook(code('b', 'y = 2'));
+
+    const result = mergeNotebooks(base, local, external);
+
+    expect(result.conflicts).toEqual([]);
+    expect(sources(resolveMerge(result, new Map()))).toEqual(['y = 2']);
+  });
+
+  it('should report a cell deleted on one side and edited on the other', () => {
+    const local = notebook(code('a', 'x = 10'), code('b', 'y = 2'));
+    const external = notebook(code('b', 'y = 2'));
+
+    const result = mergeNotebooks(base, local, external);
+
+    expect(result.conflicts).toEqual([
+      { id: 'a', base: base.cells[0], local: local.cells[0], external: null }
+    ]);
+    expect(sources(resolveMerge(result, new Map([['a', 'external']])))).toEqual(
+      ['y = 2']
+    );
+    expect(sources(resolveMerge(result, new Map([['a', 'local']])))).toEqual([
+      'x = 10',
+      'y = 2'
+    ]);
+  });
+
+  it('should follow the external order for moved cells', () => {
+    const local = notebook(code('a', 'x = 10'), code('b', 'y = 2'));
+    const external = notebook(code('b', 'y = 2'), code('a', 'x = 1'));
+
+    const result = mergeNotebooks(base, local, external);
+
+    expect(result.conflicts).toEqual([]);
+    expect(sources(resolveMerge(result, new Map()))).toEqual([
+      'y = 2',
+      'x = 10'
+    ]);
+  });
+
+  it('should keep a local cell after its preceding neighbour', () => {
+    const local = notebook(
+      code('a', 'x = 1'),
+      code('new', 'z = 3'),
+      code('b', 'y = 2')
+    );
+    const external = notebook(
+      code('c', 'w = 4'),
+      code('a', 'x = 1'),
+      code('b', 'y = 2')
+    );
+
+    const result = mergeNotebooks(base, local, external);
+
+    expect(sources(resolveMerge(result, new Map()))).toEqual([
+      'w = 4',
+      'x = 1',
+      'z = 3',
+      'y = 2'
+    ]);
+  });
+
+  it('should give up on cells without IDs', () => {
+    const local = notebook(code('a', 'x = 1'));
+    delete local.cells[0].id;
+
+    expect(mergeNotebooks(base, local, base)).toBeNull();
+  });
+});
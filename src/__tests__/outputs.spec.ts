@@ -0,0 +1,83 @@
+import * as nbformat from '@jupyterlab/nbformat';
+
+import { keepLocalOutputs } from '../outputs';
+
+const OUTPUT: nbformat.IStream = {
+  output_type: 'stream',
+  name: 'stdout',
+  text: 'done\n'
+};
+
+function code(
+  id: string,
+  source: string,
+  outputs: nbformat.IOutput[] = [],
+  count: number | null = null
+) {
+  return {
+    id,
+    cell_type: 'code',
+    source,
+    metadata: {},
+    execution_count: count,
+    outputs
+  } as nbformat.ICodeCell;
+}
+
+function notebook(...cells: nbformat.ICell[]): nbformat.INotebookContent {
+  return { cells, metadata: {}, nbformat: 4, nbformat_minor: 5 };
+}
+
+describe('keepLocalOutputs', () => {
+  it('should keep local outputs the file comes without', () => {
+    const local = notebook(code('a', 'x = 1', [OUTPUT], 1));
+    const external = notebook(code('a', 'x = 1'));
+    const { notebook: result, kept, stale } = keepLocalOutputs(local, external);
+    const cell = result.cells[0] as nbformat.ICodeCell;
+    expect(cell.outputs).toEqual([OUTPUT]);
+    expect(cell.execution_count).toBe(1);
+    expect(kept).toBe(1);
+    expect(stale).toEqual([]);
+  });
+
+  it('should report kept outputs of changed cells as stale', () => {
+    const local = notebook(
+      code('a', 'x = 1', [OUTPUT], 1),
+      code('b', 'y = 2', [OUTPUT], 2)
+    );
+    const external = notebook(code('a', 'x = 1'), code('b', 'y = 3'));
+    const { kept, stale } = keepLocalOutputs(local, external);
+    expect(kept).toBe(2);
+    expect(stale).toEqual([1]);
+  });
+
+  it('should take the outputs the file brings', () => {
+    const fresh: nbformat.IStream = { ...OUTPUT, text: 'new\n' };
+    const local = notebook(code('a', 'x = 1', [OUTPUT], 1));
+    const external = notebook(code('a', 'x = 1', [fresh], 2));
+    const { notebook: result, kept } = keepLocalOutputs(local, external);
+    expect((result.cells[0] as nbformat.ICodeCell).outputs).toEqual([fresh]);
+    expect(kept).toBe(0);
+  });
+
+  it('should leave new and non-code cells alone', () => {
+    const markdown: nbformat.IMarkdownCell = {
+      id: 'm',
+      cell_type: 'markdown',
+      source: '# Title',
+      metadata: {}
+    };
+    const local = notebook(code('a', 'x = 1', [OUTPUT], 1));
+    const external = notebook(markdown, code('b', 'z = 3'));
+    const { notebook: result, kept } = keepLocalOutputs(local, external);
+    expect(result.cells).toEqual(external.cells);
+    expect(kept).toBe(0);
+  });
+
+  it('should not change the notebooks it is given', () => {
+    const local = notebook(code('a', 'x = 1', [OUTPUT], 1));
+    const external = notebook(code('a', 'x = 1'));
+    keepLocalOutputs(local, external);
+    expect((external.cells[0] as nbformat.ICodeCell).outputs).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+import * as nbformat from '@jupyterlab/nbformat';
+import { NotebookModel } from '@jupyterlab/notebook';
+
+import { patchNotebook } from '../patch';
+
+function code(id: string, source: string, outputs: nbformat.IOutput[] = []) {
+  return {
+    id,
+    cell_type: 'code',
+    source,
+    metadata: {},
+    execution_count: null,
+    outputs
+  } as nbformat.ICodeCell;
+}
+
+function notebook(...cells: nbformat.ICell[]): nbformat.INotebookContent {
+  return { cells, metadata: {}, nbformat: 4, nbformat_minor: 5 };
+}
+
+function createModel(content: nbformat.INotebookContent): NotebookModel {
+  const model = new NotebookModel();
+  model.fromJSON(content);
+  return model;
+}
+
+function cells(model: NotebookModel): Array<[string, string]> {
+  return model.sharedModel.cells.map(cell => [cell.id, cell.getSource()]);
+}
+
+describe('patchNotebook', () => {
+  let model: NotebookModel;
+
+  beforeEach(() => {
+    model = createModel(
+      notebook(code('a', 'x = 1'), code('b', 'y = 2'), code('c', 'z = 3'))
+    );
+  });
+
+  afterEach(() => {
+    model.dispose();
+  });
+
+  it('should leave an unchanged notebook alone', () => {
+    const unchanged = model.sharedModel.cells[1];
+
+    const stats = patchNotebook(
+      model,
+      notebook(code('a', 'x = 1'), code('b', 'y = 2'), code('c', 'z = 3'))
+    );
+
+    expect(stats).toEqual({ inserted: 0, deleted: 0, moved: 0, updated: 0 });
+    expect(model.sharedModel.cells[1]).toBe(unchanged);
+  });
+
+  it('should insert, delete, move and update cells', () => {
+    const stats = patchNotebook(
+      model,
+      notebook(code('c', 'z = 3'), code('a', 'x = 10'), code('d', 'w = 4'))
+    );
+
+    expect(stats).toEqual({ inserted: 1, deleted: 1, moved: 1, updated: 1 });
+    expect(cells(model)).toEqual([
+      ['c', 'z = 3'],
+      ['a', 'x = 10'],
+      ['d', 'w = 4']
+    ]);
+  });
+
+  it('should keep the shared cells that only changed', () => {
+    const b = model.sharedModel.cells[1];
+
+    patchNotebook(
+      model,
+      notebook(code('a', 'x = 1'), code('b', 'y = 20'), code('c', 'z = 3'))
+    );
+
+    expect(model.sharedModel.cells[1]).toBe(b);
+    expect(b.getSource()).toBe('y = 20');
+  });
+
+  it('should move a cell with its new content', () => {
+    patchNotebook(
+      model,
+      notebook(code('c', 'z = 30'), code('a', 'x = 1'), code('b', 'y = 2'))
+    );
+
+    expect(cells(model)).toEqual([
+      ['c', 'z = 30'],
+      ['a', 'x = 1'],
+      ['b', 'y = 2']
+    ]);
+  });
+
+  it('should update the outputs', () => {
+    const output: nbformat.IStream = {
+      output_type: 'stream',
+      name: 'stdout',
+      text: '2\n'
+    };
+
+    patchNotebook(
+      model,
+      notebook(
+        code('a', 'x = 1'),
+        code('b', 'y = 2', [output]),
+        code('c', 'z = 3')
+      )
+    );
+
+    expect(
+      (model.sharedModel.cells[1].toJSON() as nbformat.ICodeCell).outputs
+    ).toEqual([output]);
+  });
+
+  it('should replace a cell whose type changed', () => {
+    const markdown: nbformat.IMarkdownCell = {
+      id: 'b',
+      cell_type: 'markdown',
+      source: '# Title',
+      metadata: {}
+    };
+
+    const stats = patchNotebook(
+      model,
+      notebook(code('a', 'x = 1'), markdown, code('c', 'z = 3'))
+    );
+
+    expect(stats.updated).toBe(1);
+    expect(model.sharedModel.cells[1].cell_type).toBe('markdown');
+    expect(model.sharedModel.cells[1].getSource()).toBe('# Title');
+  });
+
+  it('should give up on cells without IDs', () => {
+    const content = notebook(code('a', 'x = 1'));
+    delete content.cells[0].id;
+
+    expect(patchNotebook(model, content)).toBeNull();
+    expect(cells(model)).toHaveLength(3);
+  });
+});
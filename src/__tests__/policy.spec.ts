@@ -0,0 +1,87 @@
+import { IRefreshPolicy, resolvePolicy } from '../policy';
+
+const defaults: IRefreshPolicy = {
+  enabled: true,
+  conflictResolution: 'ask',
+  refreshDelay: 500,
+  showNotifications: false
+};
+
+describe('resolvePolicy', () => {
+  it('should use the settings without rules or metadata', () => {
+    expect(resolvePolicy(defaults, [], 'analysis.ipynb')).toEqual(defaults);
+  });
+
+  it('should apply the rules matching the path', () => {
+    const rules = [
+      { pattern: 'drafts/**', enabled: false },
+      { pattern: '**/*.py', refreshDelay: 0 }
+    ];
+
+    expect(resolvePolicy(defaults, rules, 'drafts/a.ipynb').enabled).toBe(
+      false
+    );
+    expect(resolvePolicy(defaults, rules, 'a.ipynb').enabled).toBe(true);
+  });
+
+  it('should let later rules win', () => {
+    const rules = [
+      { pattern: '**/*.ipynb', conflictResolution: 'merge' as const },
+      { pattern: 'reports/**', conflictResolution: 'keepLocal' as const }
+    ];
+
+    expect(
+      resolvePolicy(defaults, rules, 'reports/a.ipynb').conflictResolution
+    ).toBe('keepLocal');
+    expect(resolvePolicy(defaults, rules, 'a.ipynb').conflictResolution).toBe(
+      'merge'
+    );
+  });
+
+  it('should apply rules with a source to changes from that source only', () => {
+    const rules = [{ source: 'claude' as const, showNotifications: true }];
+
+    expect(
+      resolvePolicy(defaults, rules, 'a.ipynb', undefined, 'claude')
+        .showNotifications
+    ).toBe(true);
+    expect(
+      resolvePolicy(defaults, rules, 'a.ipynb', undefined, 'git')
+        .showNotifications
+    ).toBe(false);
+    expect(resolvePolicy(defaults, rules, 'a.ipynb').showNotifications).toBe(
+      false
+    );
+  });
+
+  it('should ignore rules without a pattern or a source', () => {
+    expect(resolvePolicy(defaults, [{ enabled: false }], 'a.ipynb')).toEqual(
+      defaults
+    );
+  });
+
+  it('should let the notebook metadata win over the rules', () => {
+    const rules = [{ pattern: '**', refreshDelay: 0 }];
+
+    expect(
+      resolvePolicy(defaults, rules, 'a.ipynb', { refreshDelay: 2000 })
+        .refreshDelay
+    ).toBe(2000);
+  });
+
+  it('should ignore invalid overrides', () => {
+    const rules = [
+      { pattern: '**', conflictResolution: 'discard' as any, enabled: 'no' }
+    ] as any;
+
+    expect(
+      resolvePolicy(defaults, rules, 'a.ipynb', {
+        refreshDelay: -1,
+        showNotifications: 'yes'
+      })
+    ).toEqual(defaults);
+    expect(resolvePolicy(defaults, [], 'a.ipynb', ['enabled'])).toEqual(
+      defaults
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { PollScheduler, runConcurrently } from '../scheduler';
+
+describe('PollScheduler', () => {
+  const BASE = 1000;
+  let scheduler: PollScheduler;
+  let tick: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    tick = jest.fn(() => Promise.resolve());
+    scheduler = new PollScheduler({ interval: () => BASE, tick });
+  });
+
+  afterEach(() => {
+    scheduler.dispose();
+    jest.useRealTimers();
+  });
+
+  it('should consider new paths due right away', () => {
+    expect(scheduler.duePaths(['a', 'b'])).toEqual(['a', 'b']);
+  });
+
+  it('should back off on paths that did not change', () => {
+    scheduler.record('a', false);
+    jest.advanceTimersByTime(BASE);
+    expect(scheduler.duePaths(['a'])).toEqual([]);
+    jest.advanceTimersByTime(BASE);
+    expect(scheduler.duePaths(['a'])).toEqual(['a']);
+
+    scheduler.record('a', false);
+    jest.advanceTimersByTime(3 * BASE);
+    expect(scheduler.duePaths(['a'])).toEqual([]);
+    jest.advanceTimersByTime(BASE);
+    expect(scheduler.duePaths(['a'])).toEqual(['a']);
+  });
+
+  it('should cap the backoff', () => {
+    for (let i = 0; i < 10; i++) {
+      scheduler.record('a', false);
+    }
+    jest.advanceTimersByTime(8 * BASE);
+    expect(scheduler.duePaths(['a'])).toEqual(['a']);
+  });
+
+  it('should return to the base interval after a change', () => {
+    scheduler.record('a', false);
+    scheduler.record('a', false);
+    scheduler.record('a', true);
+    jest.advanceTimersByTime(BASE);
+    expect(scheduler.duePaths(['a'])).toEqual(['a']);
+  });
+
+  it('should forget paths no longer given', () => {
+    scheduler.record('a', false);
+    expect(scheduler.duePaths([])).toEqual([]);
+    expect(scheduler.duePaths(['a'])).toEqual(['a']);
+  });
+
+  it('should tick every base interval once started', async () => {
+    scheduler.start();
+    expect(tick).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(BASE);
+    expect(tick).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(BASE);
+    expect(tick).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop ticking once disposed', async () => {
+    scheduler.start();
+    scheduler.dispose();
+    await jest.advanceTimersByTimeAsync(5 * BASE);
+    expect(tick).not.toHaveBeenCalled();
+  });
+});
+
+describe('runConcurrently', () => {
+  it('should run every item, at most limit at a time', async () => {
+    let running = 0;
+    let peak = 0;
+    const done: number[] = [];
+    await runConcurrently([1, 2, 3, 4, 5], 2, async item => {
+      running++;
+      peak = Math.max(peak, running);
+      await Promise.resolve();
+      done.push(item);
+      running--;
+    });
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+});
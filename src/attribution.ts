@@ -0,0 +1,43 @@
+import { ServerConnection } from '@jupyterlab/services';
+
+import { requestAPI } from './handler';
+
+/**
+ * The tool an external change is attributed to
+ */
+export type ChangeSource = 'claude' | 'git' | 'other';
+
+/**
+ * Human-readable description of each change source
+ */
+export const SOURCE_LABELS: Record<ChangeSource, string> = {
+  claude: 'Claude Code',
+  git: 'a git operation',
+  other: 'an external program'
+};
+
+/**
+ * Ask the server extension which tool last wrote a file
+ *
+ * Claude Code edits are recognized from the marker written by the
+ * `jupyterlab_claude_code_refresh.hook` Claude Code hook, git operations
+ * from a move of the repository's HEAD (a checkout, merge, reset...) around
+ * the time the file was written. Anything else, or any failure (e.g. no
+ * server extension), is attributed to `other`.
+ */
+export async function fetchChangeSource(
+  path: string,
+  serverSettings?: ServerConnection.ISettings
+): Promise<ChangeSource> {
+  try {
+    const result = await requestAPI<{ source?: string }>(
+      `attribution?path=${encodeURIComponent(path)}`,
+      {},
+      serverSettings
+    );
+    const source = result?.source;
+    return source === 'claude' || source === 'git' ? source : 'other';
+  } catch (error) {
+    return 'other';
+  }
+}
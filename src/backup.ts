@@ -0,0 +1,133 @@
+import { PathExt } from '@jupyterlab/coreutils';
+import * as nbformat from '@jupyterlab/nbformat';
+import { Contents, ServerConnection } from '@jupyterlab/services';
+
+/**
+ * Where local backups go and how many are kept
+ */
+export interface IBackupOptions {
+  directory: string; // relative to the server root; empty for next to the file
+  maxBackups: number; // kept per file, the oldest being deleted first
+}
+
+/**
+ * Marker between the file name and the time in backup names
+ */
+const BACKUP_MARKER = '.local-';
+
+/**
+ * The name prefix of the backups of a file, e.g. `analysis.local-`
+ *
+ * Backups are not hidden files: the Jupyter server refuses to write them
+ * and leaves them out of listings unless `allow_hidden` is set.
+ */
+function backupPrefix(path: string): string {
+  return `${PathExt.basename(path, PathExt.extname(path))}${BACKUP_MARKER}`;
+}
+
+/**
+ * The directory holding the backups of a file
+ *
+ * The backup directory mirrors the directories of the files, so files with
+ * the same name in different directories don't share their backups.
+ */
+export function backupDirectory(path: string, options: IBackupOptions): string {
+  const directory = PathExt.normalize(options.directory.trim()).replace(
+    /\/+$/,
+    ''
+  );
+  return directory && directory !== '.'
+    ? PathExt.join(directory, PathExt.dirname(path))
+    : PathExt.dirname(path);
+}
+
+/**
+ * Create a directory and its missing parents
+ */
+async function ensureDirectory(
+  contents: Contents.IManager,
+  directory: string
+): Promise<void> {
+  let current = '';
+  for (const part of directory.split('/').filter(part => part)) {
+    current = current ? `${current}/${part}` : part;
+    try {
+      await contents.get(current, { content: false });
+    } catch (error) {
+      if (
+        !(error instanceof ServerConnection.ResponseError) ||
+        error.response.status !== 404
+      ) {
+        throw error;
+      }
+      await contents.save(current, { type: 'directory' });
+    }
+  }
+}
+
+/**
+ * Write a local version of a file next to it, or in the backup directory
+ *
+ * The backup is named after the file and the time, e.g.
+ * `analysis.local-2024-05-01T09-30-00-000Z.ipynb`. Resolves its path.
+ */
+export async function writeBackup(
+  contents: Contents.IManager,
+  path: string,
+  content: nbformat.INotebookContent | string,
+  options: IBackupOptions
+): Promise<string> {
+  const directory = backupDirectory(path, options);
+  await ensureDirectory(contents, directory);
+
+  const time = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = PathExt.join(
+    directory,
+    `${backupPrefix(path)}${time}${PathExt.extname(path)}`
+  );
+  await contents.save(
+    backupPath,
+    typeof content === 'string'
+      ? { type: 'file', format: 'text', content }
+      : { type: 'notebook', format: 'json', content }
+  );
+  return backupPath;
+}
+
+/**
+ * Delete the oldest backups of a file beyond the number kept
+ *
+ * Resolves the paths of the deleted backups.
+ */
+export async function pruneBackups(
+  contents: Contents.IManager,
+  path: string,
+  options: IBackupOptions
+): Promise<string[]> {
+  const listing = await contents.get(backupDirectory(path, options), {
+    type: 'directory',
+    content: true
+  });
+  const prefix = backupPrefix(path);
+  const extension = PathExt.extname(path);
+
+  // The time in the name sorts the backups oldest first
+  const backups = (listing.content as Contents.IModel[])
+    .filter(
+      item =>
+        item.type !== 'directory' &&
+        item.name.startsWith(prefix) &&
+        item.name.endsWith(extension)
+    )
+    .map(item => item.path)
+    .sort();
+  const expired = backups.slice(
+    0,
+    Math.max(0, backups.length - options.maxBackups)
+  );
+
+  for (const backup of expired) {
+    await contents.delete(backup);
+  }
+  return expired;
+}
@@ -0,0 +1,137 @@
+import { DirListing, FileBrowser } from '@jupyterlab/filebrowser';
+import { IDisposable } from '@lumino/disposable';
+import { IMessageHandler, Message, MessageLoop } from '@lumino/messaging';
+import { Widget } from '@lumino/widgets';
+
+import { SOURCE_LABELS } from './attribution';
+import { WorkspaceWatcher } from './workspace';
+
+/**
+ * Class added to the file browser items changed on disk
+ */
+const CHANGED_CLASS = 'jp-claude-code-refresh-changed-on-disk';
+
+/**
+ * Class of the badge added to the name of those items
+ */
+const BADGE_CLASS = 'jp-claude-code-refresh-changed-badge';
+
+/**
+ * Find the directory listing among the descendants of a widget
+ */
+function findListing(widget: Widget): DirListing | null {
+  if (widget instanceof DirListing) {
+    return widget;
+  }
+  for (const child of widget.children()) {
+    const listing = findListing(child);
+    if (listing) {
+      return listing;
+    }
+  }
+  return null;
+}
+
+/**
+ * "Changed on disk" badges on the items of a file browser
+ *
+ * The listing reuses its item nodes for other files whenever it renders,
+ * so the badges are updated after every render of the listing.
+ */
+export class FileBrowserBadges implements IDisposable {
+  private _listing: DirListing | null;
+  private _watcher: WorkspaceWatcher;
+  private _frame: number | null = null;
+  private _isDisposed = false;
+
+  constructor(browser: FileBrowser, watcher: WorkspaceWatcher) {
+    // The listing is one of the widgets of the browser, not a public member
+    this._listing = findListing(browser);
+    this._watcher = watcher;
+    if (!this._listing) {
+      return;
+    }
+    watcher.changed.connect(this._schedule, this);
+    MessageLoop.installMessageHook(this._listing, this._hook);
+    this._schedule();
+  }
+
+  /**
+   * Whether the badges have been disposed
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Stop updating the badges
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this._watcher.changed.disconnect(this._schedule, this);
+    if (this._listing) {
+      MessageLoop.removeMessageHook(this._listing, this._hook);
+    }
+    if (this._frame !== null) {
+      cancelAnimationFrame(this._frame);
+      this._frame = null;
+    }
+  }
+
+  /**
+   * Update the badges once the listing has rendered
+   */
+  private _hook = (handler: IMessageHandler, msg: Message): boolean => {
+    if (msg.type === 'update-request') {
+      this._schedule();
+    }
+    return true;
+  };
+
+  /**
+   * Update the badges on the next animation frame
+   */
+  private _schedule(): void {
+    if (this._frame === null && !this._isDisposed) {
+      this._frame = requestAnimationFrame(() => {
+        this._frame = null;
+        this._update();
+      });
+    }
+  }
+
+  /**
+   * Add or remove the badge of every item, in listing order
+   */
+  private _update(): void {
+    const items = Array.from(this._listing.sortedItems());
+    const nodes = Array.from(
+      this._listing.contentNode.children
+    ) as HTMLElement[];
+
+    nodes.forEach((node, index) => {
+      const item = items[index];
+      const change = item ? this._watcher.get(item.path) : undefined;
+      let badge = node.querySelector<HTMLElement>(`.${BADGE_CLASS}`);
+
+      node.classList.toggle(CHANGED_CLASS, !!change);
+      if (!change) {
+        badge?.remove();
+        return;
+      }
+
+      if (!badge) {
+        badge = document.createElement('span');
+        badge.className = BADGE_CLASS;
+        badge.textContent = '●';
+        node.querySelector('.jp-DirListing-itemText')?.appendChild(badge);
+      }
+      badge.title = `Changed on disk by ${
+        SOURCE_LABELS[change.source]
+      } at ${new Date(change.fileTime).toLocaleString()}`;
+    });
+  }
+}
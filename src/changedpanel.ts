@@ -0,0 +1,132 @@
+import { notebookIcon } from '@jupyterlab/ui-components';
+import { Widget } from '@lumino/widgets';
+
+import { SOURCE_LABELS } from './attribution';
+import { IChangedFile, WorkspaceWatcher } from './workspace';
+
+/**
+ * ID of the changed files panel
+ */
+export const CHANGED_PANEL_ID = 'jp-claude-code-refresh-changed';
+
+/**
+ * Sidebar panel listing the closed notebooks recently changed on disk
+ *
+ * Every change is listed, or only the changes made by Claude Code once
+ * filtered. Opening a file is left to `open`, which shows what changed
+ * since it was last seen.
+ */
+export class ChangedFilesPanel extends Widget {
+  private _watcher: WorkspaceWatcher;
+  private _open: (path: string) => void;
+  private _claudeOnly: HTMLInputElement;
+  private _list: HTMLElement;
+
+  constructor(watcher: WorkspaceWatcher, open: (path: string) => void) {
+    super();
+    this.id = CHANGED_PANEL_ID;
+    this.addClass('jp-claude-code-refresh-log');
+    this.addClass('jp-claude-code-refresh-changed');
+    this.title.icon = notebookIcon;
+    this.title.caption = 'Recently Changed by Claude Code';
+
+    const header = document.createElement('h2');
+    header.className = 'jp-claude-code-refresh-history-title';
+    header.textContent = 'Recently Changed';
+    this.node.appendChild(header);
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'jp-claude-code-refresh-changed-toolbar';
+
+    const label = document.createElement('label');
+    this._claudeOnly = document.createElement('input');
+    this._claudeOnly.type = 'checkbox';
+    this._claudeOnly.checked = false;
+    this._claudeOnly.onchange = () => this._render();
+    label.append(this._claudeOnly, ' Claude Code only');
+    toolbar.appendChild(label);
+
+    const clear = document.createElement('button');
+    clear.className = 'jp-mod-styled jp-mod-minimal';
+    clear.textContent = 'Clear';
+    clear.title = 'Mark every file as seen';
+    clear.onclick = () => this._watcher.clear();
+    toolbar.appendChild(clear);
+    this.node.appendChild(toolbar);
+
+    this._list = document.createElement('ul');
+    this._list.className = 'jp-claude-code-refresh-log-list';
+    this.node.appendChild(this._list);
+
+    this._watcher = watcher;
+    this._open = open;
+    this._watcher.changed.connect(this._render, this);
+    this._render();
+  }
+
+  /**
+   * Dispose of the panel
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this._watcher.changed.disconnect(this._render, this);
+    super.dispose();
+  }
+
+  /**
+   * Render the changed files, most recent first
+   */
+  private _render(): void {
+    this._list.textContent = '';
+
+    const files = this._watcher.files.filter(
+      file => !this._claudeOnly.checked || file.source === 'claude'
+    );
+    if (!files.length) {
+      const empty = document.createElement('li');
+      empty.className = 'jp-claude-code-refresh-history-empty';
+      empty.textContent = this._watcher.directories.length
+        ? 'Closed notebooks changed on disk are listed here.'
+        : 'Add directories to the "Watched directories" setting to list the closed notebooks changed on disk.';
+      this._list.appendChild(empty);
+      return;
+    }
+
+    files.forEach(file => this._list.appendChild(this._createItem(file)));
+  }
+
+  /**
+   * Create the list item for a changed file
+   */
+  private _createItem(file: IChangedFile): HTMLElement {
+    const item = document.createElement('li');
+    item.className = 'jp-claude-code-refresh-log-item';
+
+    const title = document.createElement('div');
+    title.className = 'jp-claude-code-refresh-log-title';
+    const path = document.createElement('button');
+    path.className =
+      'jp-claude-code-refresh-log-path jp-claude-code-refresh-changed-open';
+    path.textContent = file.path.split('/').pop() ?? file.path;
+    path.title = `Open ${file.path} and show what changed`;
+    path.onclick = () => this._open(file.path);
+    const dismiss = document.createElement('button');
+    dismiss.className = 'jp-mod-styled jp-mod-minimal';
+    dismiss.textContent = 'Dismiss';
+    dismiss.title = 'Mark as seen';
+    dismiss.onclick = () => this._watcher.dismiss(file.path);
+    title.append(path, dismiss);
+    item.appendChild(title);
+
+    const detail = document.createElement('div');
+    detail.className = 'jp-claude-code-refresh-log-detail';
+    detail.textContent = `${file.path} · by ${
+      SOURCE_LABELS[file.source]
+    } · ${new Date(file.fileTime).toLocaleString()}`;
+    item.appendChild(detail);
+
+    return item;
+  }
+}
@@ -0,0 +1,55 @@
+import { DocumentRegistry } from '@jupyterlab/docregistry';
+
+/**
+ * Awareness field set by every client running the extension
+ */
+const AWARENESS_FIELD = 'claudeCodeRefresh';
+
+/**
+ * Whether a document is shared through real-time collaboration
+ *
+ * With `jupyter-collaboration` installed, every open document is backed
+ * by a shared Yjs document synchronized between all its clients.
+ */
+export function isCollaborative(model: DocumentRegistry.IModel): boolean {
+  return !!model.collaborative;
+}
+
+/**
+ * Announce this client in the awareness of a shared document
+ *
+ * Every client running the extension announces itself, so they all agree
+ * on which one loads external changes.
+ */
+export function joinRefreshElection(model: DocumentRegistry.IModel): void {
+  const awareness = (model.sharedModel as any).awareness;
+  if (awareness && !awareness.getLocalState()?.[AWARENESS_FIELD]) {
+    awareness.setLocalStateField(AWARENESS_FIELD, { watching: true });
+  }
+}
+
+/**
+ * Whether this client is the one loading external changes of a shared
+ * document
+ *
+ * Among the clients announced in the awareness of the shared document, the
+ * one with the lowest client ID refreshes it; the others receive the update
+ * through the shared model. When the leader closes the document, its
+ * awareness state expires and the next client takes over. Documents
+ * without awareness are always refreshed locally.
+ */
+export function isRefreshLeader(model: DocumentRegistry.IModel): boolean {
+  const awareness = (model.sharedModel as any).awareness;
+  if (!awareness) {
+    return true;
+  }
+  joinRefreshElection(model);
+
+  const candidates: number[] = [];
+  awareness.getStates().forEach((state: any, clientID: number) => {
+    if (state?.[AWARENESS_FIELD]) {
+      candidates.push(clientID);
+    }
+  });
+  return !candidates.length || Math.min(...candidates) === awareness.clientID;
+}
@@ -0,0 +1,336 @@
+import * as nbformat from '@jupyterlab/nbformat';
+import { JSONExt } from '@lumino/coreutils';
+
+/**
+ * The kind of change a cell went through between two notebook versions
+ */
+export type CellDiffType = 'unchanged' | 'added' | 'removed' | 'modified';
+
+/**
+ * A single row of a cell-level notebook diff
+ */
+export interface ICellDiff {
+  type: CellDiffType;
+  local: nbformat.ICell | null;
+  external: nbformat.ICell | null;
+  sourceChanged: boolean;
+  outputsChanged: boolean;
+}
+
+/**
+ * A single line of a line-level text diff
+ */
+export interface ILineDiff {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Line diffs above this many compared line pairs are not aligned
+ */
+const MAX_LINE_DIFF_CELLS = 1000000;
+
+/**
+ * Get the source of a cell as a single string
+ */
+export function cellSource(cell: nbformat.ICell): string {
+  const source = cell.source;
+  return Array.isArray(source) ? source.join('') : source ?? '';
+}
+
+/**
+ * Get the outputs of a cell (empty for non-code cells)
+ */
+export function cellOutputs(cell: nbformat.ICell): nbformat.IOutput[] {
+  return nbformat.isCode(cell) ? cell.outputs ?? [] : [];
+}
+
+/**
+ * Render cell outputs as plain text lines for display and diffing
+ */
+export function outputsToText(outputs: nbformat.IOutput[]): string {
+  const lines: string[] = [];
+
+  outputs.forEach(output => {
+    if (nbformat.isStream(output)) {
+      const text = output.text;
+      lines.push(Array.isArray(text) ? text.join('') : text);
+    } else if (nbformat.isError(output)) {
+      lines.push(`${output.ename}: ${output.evalue}`);
+    } else if (
+      nbformat.isExecuteResult(output) ||
+      nbformat.isDisplayData(output)
+    ) {
+      const plain = output.data['text/plain'];
+      if (plain !== undefined) {
+        lines.push(Array.isArray(plain) ? plain.join('') : String(plain));
+      } else {
+        lines.push(`[${Object.keys(output.data).join(', ')}]`);
+      }
+    } else {
+      lines.push(`[${output.output_type}]`);
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Join multiline strings so equivalent JSON serializations compare equal
+ */
+function normalize(value: any): any {
+  if (Array.isArray(value)) {
+    return value.every(item => typeof item === 'string')
+      ? value.join('')
+      : value.map(normalize);
+  }
+  if (value && typeof value === 'object') {
+    const result: { [key: string]: any } = {};
+    Object.keys(value).forEach(key => {
+      if (value[key] !== undefined) {
+        result[key] = normalize(value[key]);
+      }
+    });
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Whether two cells have the same outputs
+ */
+export function outputsEqual(a: nbformat.ICell, b: nbformat.ICell): boolean {
+  return JSONExt.deepEqual(
+    normalize(cellOutputs(a)),
+    normalize(cellOutputs(b))
+  );
+}
+
+/**
+ * Whether two cells hold the same content
+ *
+ * The `trusted` flag is ignored since it is not part of the document.
+ */
+export function cellsEqual(a: nbformat.ICell, b: nbformat.ICell): boolean {
+  const metadata = (cell: nbformat.ICell) => {
+    const result = normalize(cell.metadata ?? {});
+    delete result.trusted;
+    return result;
+  };
+  return (
+    a.cell_type === b.cell_type &&
+    cellSource(a) === cellSource(b) &&
+    outputsEqual(a, b) &&
+    JSONExt.deepEqual(metadata(a), metadata(b))
+  );
+}
+
+/**
+ * Key used to align cells across notebook versions
+ *
+ * Cells are matched by ID when available, and by type and source otherwise.
+ */
+function cellKey(cell: nbformat.ICell): string {
+  if (typeof cell.id === 'string' && cell.id) {
+    return `id:${cell.id}`;
+  }
+  return `src:${cell.cell_type}:${cellSource(cell)}`;
+}
+
+/**
+ * Compute the longest common subsequence alignment of two sequences
+ *
+ * Returns pairs of matched indices in increasing order.
+ */
+function alignSequences<T>(
+  a: T[],
+  b: T[],
+  equal: (x: T, y: T) => boolean
+): Array<[number, number]> {
+  const n = a.length;
+  const m = b.length;
+  const table: number[][] = [];
+
+  for (let i = 0; i <= n; i++) {
+    table.push(new Array(m + 1).fill(0));
+  }
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = equal(a[i], b[j])
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (equal(a[i], b[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Build the diff row for a pair of cells, either of which may be missing
+ */
+export function diffCells(
+  local: nbformat.ICell | null,
+  external: nbformat.ICell | null
+): ICellDiff {
+  if (!local || !external) {
+    const cell = local ?? external;
+    return {
+      type: local ? 'removed' : 'added',
+      local,
+      external,
+      sourceChanged: true,
+      outputsChanged: cellOutputs(cell).length > 0
+    };
+  }
+
+  const sourceChanged =
+    local.cell_type !== external.cell_type ||
+    cellSource(local) !== cellSource(external);
+
+  return {
+    type: cellsEqual(local, external) ? 'unchanged' : 'modified',
+    local,
+    external,
+    sourceChanged,
+    outputsChanged: !outputsEqual(local, external)
+  };
+}
+
+/**
+ * Compute a cell-level diff between the local and external notebook versions
+ */
+export function diffNotebooks(
+  local: nbformat.INotebookContent,
+  external: nbformat.INotebookContent
+): ICellDiff[] {
+  const localCells = local.cells ?? [];
+  const externalCells = external.cells ?? [];
+  const localKeys = localCells.map(cellKey);
+  const externalKeys = externalCells.map(cellKey);
+  const pairs = alignSequences(localKeys, externalKeys, (x, y) => x === y);
+
+  const diffs: ICellDiff[] = [];
+  let i = 0;
+  let j = 0;
+
+  const flushUnmatched = (untilLocal: number, untilExternal: number) => {
+    const removed = localCells.slice(i, untilLocal);
+    const added = externalCells.slice(j, untilExternal);
+
+    // Cells without IDs that sit at the same spot are most likely edits
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < removed.length; k++) {
+      if (k < paired && !removed[k].id && !added[k].id) {
+        diffs.push(diffCells(removed[k], added[k]));
+      } else {
+        diffs.push(diffCells(removed[k], null));
+      }
+    }
+    for (let k = 0; k < added.length; k++) {
+      if (k < paired && !removed[k].id && !added[k].id) {
+        continue;
+      }
+      diffs.push(diffCells(null, added[k]));
+    }
+
+    i = untilLocal;
+    j = untilExternal;
+  };
+
+  pairs.forEach(([li, ej]) => {
+    flushUnmatched(li, ej);
+    diffs.push(diffCells(localCells[li], externalCells[ej]));
+    i = li + 1;
+    j = ej + 1;
+  });
+  flushUnmatched(localCells.length, externalCells.length);
+
+  return diffs;
+}
+
+/**
+ * Compute a line-level diff between two strings
+ */
+export function diffLines(a: string, b: string): ILineDiff[] {
+  const aLines = a ? a.split('\n') : [];
+  const bLines = b ? b.split('\n') : [];
+
+  if (aLines.length * bLines.length > MAX_LINE_DIFF_CELLS) {
+    return [
+      ...aLines.map(text => ({ type: 'delete' as const, text })),
+      ...bLines.map(text => ({ type: 'insert' as const, text }))
+    ];
+  }
+
+  const pairs = alignSequences(aLines, bLines, (x, y) => x === y);
+  const lines: ILineDiff[] = [];
+  let i = 0;
+  let j = 0;
+
+  const push = (untilA: number, untilB: number) => {
+    for (; i < untilA; i++) {
+      lines.push({ type: 'delete', text: aLines[i] });
+    }
+    for (; j < untilB; j++) {
+      lines.push({ type: 'insert', text: bLines[j] });
+    }
+  };
+
+  pairs.forEach(([ai, bj]) => {
+    push(ai, bj);
+    lines.push({ type: 'equal', text: aLines[ai] });
+    i = ai + 1;
+    j = bj + 1;
+  });
+  push(aLines.length, bLines.length);
+
+  return lines;
+}
+
+/**
+ * Build a notebook from a diff, taking the external side of accepted rows
+ *
+ * Rejected rows keep the local cell (or drop the cell if it only exists
+ * externally). Notebook-level metadata comes from the external version.
+ */
+export function composeNotebook(
+  external: nbformat.INotebookContent,
+  diffs: ICellDiff[],
+  accepted: boolean[]
+): nbformat.INotebookContent {
+  const cells: nbformat.ICell[] = [];
+  const seenIds = new Set<string>();
+
+  diffs.forEach((diff, index) => {
+    const cell = accepted[index] ? diff.external : diff.local;
+    if (!cell) {
+      return;
+    }
+    // A cell moved across the alignment shows up twice; keep one copy
+    if (typeof cell.id === 'string') {
+      if (seenIds.has(cell.id)) {
+        return;
+      }
+      seenIds.add(cell.id);
+    }
+    cells.push(cell);
+  });
+
+  return { ...external, cells };
+}
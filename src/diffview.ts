@@ -0,0 +1,235 @@
+import { Widget } from '@lumino/widgets';
+
+import {
+  ICellDiff,
+  cellOutputs,
+  cellSource,
+  diffLines,
+  outputsToText
+} from './diff';
+
+/**
+ * Options for the cell diff widget
+ */
+export interface ICellDiffOptions {
+  localLabel?: string;
+  externalLabel?: string;
+  selectable?: boolean;
+  hideUnchanged?: boolean;
+  defaultAccepted?: boolean;
+}
+
+/**
+ * Side-by-side cell-level diff of two notebook versions
+ *
+ * When selectable, every changed row gets a checkbox so the external side
+ * can be accepted or rejected per cell. The dialog value is the list of
+ * accepted flags, one per diff row.
+ */
+export class CellDiffWidget extends Widget {
+  private _diffs: ICellDiff[];
+  private _accepted: boolean[];
+  private _checkboxes: Map<number, HTMLInputElement> = new Map();
+
+  constructor(diffs: ICellDiff[], options: ICellDiffOptions = {}) {
+    super();
+    this.addClass('jp-claude-code-refresh-diff');
+    this._diffs = diffs;
+    this._accepted = diffs.map(
+      diff => diff.type !== 'unchanged' && (options.defaultAccepted ?? true)
+    );
+    this._render(options);
+  }
+
+  /**
+   * Get the accepted flag of every diff row
+   */
+  getValue(): boolean[] {
+    return [...this._accepted];
+  }
+
+  /**
+   * Render the diff rows
+   */
+  private _render(options: ICellDiffOptions): void {
+    const selectable = options.selectable ?? true;
+    const changed = this._diffs.filter(diff => diff.type !== 'unchanged');
+
+    const summary = document.createElement('div');
+    summary.className = 'jp-claude-code-refresh-diff-summary';
+    summary.textContent = this._summarize();
+    this.node.appendChild(summary);
+
+    if (selectable && changed.length > 1) {
+      const toolbar = document.createElement('div');
+      toolbar.className = 'jp-claude-code-refresh-diff-toolbar';
+      toolbar.appendChild(this._createToggleAll('Accept all', true));
+      toolbar.appendChild(this._createToggleAll('Reject all', false));
+      this.node.appendChild(toolbar);
+    }
+
+    const header = document.createElement('div');
+    header.className =
+      'jp-claude-code-refresh-diff-row jp-claude-code-refresh-diff-header';
+    header.appendChild(this._createColumn(options.localLabel ?? 'Current'));
+    header.appendChild(this._createColumn(options.externalLabel ?? 'On disk'));
+    this.node.appendChild(header);
+
+    this._diffs.forEach((diff, index) => {
+      if (diff.type === 'unchanged' && options.hideUnchanged) {
+        return;
+      }
+      this.node.appendChild(this._createRow(diff, index, selectable));
+    });
+  }
+
+  /**
+   * Describe the number of added, removed and modified cells
+   */
+  private _summarize(): string {
+    const count = (type: string) =>
+      this._diffs.filter(diff => diff.type === type).length;
+    return `${count('added')} added, ${count('removed')} removed, ${count(
+      'modified'
+    )} modified, ${count('unchanged')} unchanged`;
+  }
+
+  /**
+   * Create a button toggling every checkbox at once
+   */
+  private _createToggleAll(label: string, value: boolean): HTMLElement {
+    const button = document.createElement('button');
+    button.className = 'jp-mod-styled jp-mod-reject';
+    button.textContent = label;
+    button.onclick = () => {
+      this._checkboxes.forEach((checkbox, index) => {
+        checkbox.checked = value;
+        this._accepted[index] = value;
+      });
+    };
+    return button;
+  }
+
+  /**
+   * Create a plain column cell
+   */
+  private _createColumn(text: string): HTMLElement {
+    const column = document.createElement('div');
+    column.className = 'jp-claude-code-refresh-diff-column';
+    column.textContent = text;
+    return column;
+  }
+
+  /**
+   * Create the row for a single cell diff
+   */
+  private _createRow(
+    diff: ICellDiff,
+    index: number,
+    selectable: boolean
+  ): HTMLElement {
+    const row = document.createElement('div');
+    row.className = `jp-claude-code-refresh-diff-row jp-mod-${diff.type}`;
+
+    const label = document.createElement('label');
+    label.className = 'jp-claude-code-refresh-diff-label';
+    const cellType = (diff.external ?? diff.local)?.cell_type ?? 'cell';
+    const details: string[] = [];
+    if (diff.type === 'modified') {
+      if (diff.sourceChanged) {
+        details.push('source');
+      }
+      if (diff.outputsChanged) {
+        details.push('outputs');
+      }
+      if (!details.length) {
+        details.push('metadata');
+      }
+    }
+    const text = `${diff.type} ${cellType} cell${
+      details.length ? ` (${details.join(', ')})` : ''
+    }`;
+
+    if (selectable && diff.type !== 'unchanged') {
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = this._accepted[index];
+      checkbox.title = 'Accept this change';
+      checkbox.onchange = () => {
+        this._accepted[index] = checkbox.checked;
+      };
+      this._checkboxes.set(index, checkbox);
+      label.appendChild(checkbox);
+    }
+    label.appendChild(document.createTextNode(text));
+    row.appendChild(label);
+
+    const columns = document.createElement('div');
+    columns.className = 'jp-claude-code-refresh-diff-columns';
+    columns.appendChild(this._createSide(diff, 'local'));
+    columns.appendChild(this._createSide(diff, 'external'));
+    row.appendChild(columns);
+
+    return row;
+  }
+
+  /**
+   * Create one side of a row with its changed lines highlighted
+   */
+  private _createSide(
+    diff: ICellDiff,
+    side: 'local' | 'external'
+  ): HTMLElement {
+    const column = document.createElement('div');
+    column.className = 'jp-claude-code-refresh-diff-column';
+
+    const cell = diff[side];
+    if (!cell) {
+      column.classList.add('jp-mod-empty');
+      return column;
+    }
+
+    const other = side === 'local' ? diff.external : diff.local;
+    const hidden = side === 'local' ? 'insert' : 'delete';
+
+    const appendBlock = (mine: string, theirs: string | null, cls: string) => {
+      const block = document.createElement('pre');
+      block.className = cls;
+
+      // Show this side's lines only, flagging those the other side lacks
+      const lines =
+        theirs === null
+          ? mine.split('\n').map(text => ({ type: 'changed', text }))
+          : side === 'local'
+          ? diffLines(mine, theirs)
+          : diffLines(theirs, mine);
+
+      lines
+        .filter(line => line.type !== hidden)
+        .forEach(line => {
+          const node = document.createElement('div');
+          node.className = 'jp-claude-code-refresh-diff-line';
+          if (line.type !== 'equal' && diff.type !== 'unchanged') {
+            node.classList.add('jp-mod-changed');
+          }
+          node.textContent = line.text || ' ';
+          block.appendChild(node);
+        });
+      column.appendChild(block);
+    };
+
+    appendBlock(
+      cellSource(cell),
+      other ? cellSource(other) : null,
+      'jp-claude-code-refresh-diff-source'
+    );
+
+    const outputs = outputsToText(cellOutputs(cell));
+    const otherOutputs = other ? outputsToText(cellOutputs(other)) : null;
+    if (outputs || otherOutputs) {
+      appendBlock(outputs, otherOutputs, 'jp-claude-code-refresh-diff-outputs');
+    }
+
+    return column;
+  }
+}
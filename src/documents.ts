@@ -0,0 +1,210 @@
+import { IDocumentManager } from '@jupyterlab/docmanager';
+import { DocumentRegistry } from '@jupyterlab/docregistry';
+import { INotebookTracker } from '@jupyterlab/notebook';
+import { Contents } from '@jupyterlab/services';
+import { IDisposable } from '@lumino/disposable';
+import { ISignal, Signal } from '@lumino/signaling';
+import { Widget } from '@lumino/widgets';
+
+/**
+ * A document context, whatever its model
+ */
+export type DocumentContext =
+  DocumentRegistry.IContext<DocumentRegistry.IModel>;
+
+/**
+ * The format a document other than a notebook is read from disk in
+ *
+ * Binary documents, such as images and PDFs, are read as base64 like their
+ * own model does: the server rejects text reads of files that aren't UTF-8.
+ * The format of the last load is used when known, else the format of the
+ * file types of the path.
+ */
+export function diskFormat(
+  contentsModel: Partial<Contents.IModel> | null,
+  fileTypes: ReadonlyArray<Partial<DocumentRegistry.IFileType>>
+): 'text' | 'base64' {
+  const format =
+    contentsModel?.format ??
+    fileTypes.find(fileType => fileType.fileFormat)?.fileFormat;
+  return format === 'base64' ? 'base64' : 'text';
+}
+
+/**
+ * Tracker of the open documents
+ *
+ * Every document widget is created by a widget factory of the document
+ * registry, whatever the area it is added to, so the tracker follows the
+ * widgets created by every factory (and by the notebook tracker, for
+ * notebooks) and keys them by their context: a document open in several
+ * views is tracked once. A document is closed when its last view is
+ * disposed.
+ */
+export class DocumentTracker implements IDisposable {
+  private _docManager: IDocumentManager;
+  private _notebooks: INotebookTracker | null;
+  private _views = new Map<DocumentContext, Widget[]>(); // in opening order
+  private _factories = new WeakMap<Widget, string>(); // widget -> factory name
+  private _opened = new Signal<this, DocumentContext>(this);
+  private _closed = new Signal<this, DocumentContext>(this);
+  private _isDisposed = false;
+
+  constructor(
+    docManager: IDocumentManager,
+    notebooks: INotebookTracker | null = null
+  ) {
+    this._docManager = docManager;
+    this._notebooks = notebooks;
+
+    const registry = docManager.registry;
+    Array.from(registry.widgetFactories()).forEach(factory =>
+      factory.widgetCreated.connect(this._onWidgetCreated, this)
+    );
+    registry.changed.connect(this._onRegistryChanged, this);
+
+    notebooks?.forEach(panel => this.track(panel));
+    notebooks?.widgetAdded.connect(this._onWidgetCreated, this);
+  }
+
+  /**
+   * A signal emitted when a document is opened in its first view
+   */
+  get opened(): ISignal<this, DocumentContext> {
+    return this._opened;
+  }
+
+  /**
+   * A signal emitted when the last view of a document is closed
+   */
+  get closed(): ISignal<this, DocumentContext> {
+    return this._closed;
+  }
+
+  /**
+   * The open documents, in opening order
+   */
+  get contexts(): DocumentContext[] {
+    return Array.from(this._views.keys());
+  }
+
+  /**
+   * Whether the tracker has been disposed
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * The open views of a document, in opening order
+   */
+  widgets(context: DocumentContext): Widget[] {
+    return [...(this._views.get(context) ?? [])];
+  }
+
+  /**
+   * The name of the widget factory that created a view, if known
+   */
+  factoryName(widget: Widget): string | undefined {
+    return this._factories.get(widget);
+  }
+
+  /**
+   * Track a document widget created before the tracker
+   */
+  track(widget: Widget): void {
+    if (this._isDisposed || widget.isDisposed) {
+      return;
+    }
+    // Factories announce their widgets before the document manager knows
+    // their context
+    const context =
+      this._docManager.contextForWidget(widget) ??
+      (widget as { context?: DocumentContext }).context;
+    if (!context) {
+      return;
+    }
+
+    const views = this._views.get(context);
+    if (views) {
+      if (!views.includes(widget)) {
+        views.push(widget);
+        widget.disposed.connect(this._onWidgetDisposed, this);
+      }
+      return;
+    }
+
+    this._views.set(context, [widget]);
+    widget.disposed.connect(this._onWidgetDisposed, this);
+    context.disposed.connect(this._onContextDisposed, this);
+    this._opened.emit(context);
+  }
+
+  /**
+   * Stop tracking documents
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    const registry = this._docManager.registry;
+    Array.from(registry.widgetFactories()).forEach(factory =>
+      factory.widgetCreated.disconnect(this._onWidgetCreated, this)
+    );
+    registry.changed.disconnect(this._onRegistryChanged, this);
+    this._notebooks?.widgetAdded.disconnect(this._onWidgetCreated, this);
+    this._views.clear();
+    Signal.clearData(this);
+  }
+
+  /**
+   * Follow the widgets of the factories registered later
+   */
+  private _onRegistryChanged(
+    sender: DocumentRegistry,
+    args: DocumentRegistry.IChangedArgs
+  ): void {
+    if (args.type === 'widgetFactory' && args.change === 'added') {
+      sender
+        .getWidgetFactory(args.name ?? '')
+        ?.widgetCreated.connect(this._onWidgetCreated, this);
+    }
+  }
+
+  private _onWidgetCreated(sender: unknown, widget: Widget): void {
+    const name = (sender as { name?: unknown }).name;
+    if (typeof name === 'string') {
+      this._factories.set(widget, name);
+    }
+    this.track(widget);
+  }
+
+  /**
+   * Forget a closed view, and the document with its last view
+   */
+  private _onWidgetDisposed(widget: Widget): void {
+    this._views.forEach((views, context) => {
+      const remaining = views.filter(view => view !== widget);
+      if (remaining.length === views.length) {
+        return;
+      }
+      if (remaining.length) {
+        this._views.set(context, remaining);
+      } else {
+        this._remove(context);
+      }
+    });
+  }
+
+  private _onContextDisposed(context: DocumentContext): void {
+    this._remove(context);
+  }
+
+  private _remove(context: DocumentContext): void {
+    if (!this._views.delete(context)) {
+      return;
+    }
+    context.disposed.disconnect(this._onContextDisposed, this);
+    this._closed.emit(context);
+  }
+}
@@ -0,0 +1,22 @@
+import { ServerConnection } from '@jupyterlab/services';
+
+import { requestAPI } from './handler';
+
+/**
+ * Ask the server extension which files an agent announced it is editing
+ *
+ * Edits are announced by the `jupyterlab_claude_code_refresh.hook` Claude
+ * Code hook before and after each tool call that writes a file. Resolves
+ * the API paths being edited; throws a `ServerConnection.ResponseError`
+ * (404) when the server extension is not installed.
+ */
+export async function fetchActiveEdits(
+  serverSettings?: ServerConnection.ISettings
+): Promise<string[]> {
+  const result = await requestAPI<{ paths?: string[] }>(
+    'edits',
+    {},
+    serverSettings
+  );
+  return (result?.paths ?? []).filter(path => typeof path === 'string');
+}
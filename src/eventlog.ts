@@ -0,0 +1,175 @@
+import * as nbformat from '@jupyterlab/nbformat';
+import { IStateDB } from '@jupyterlab/statedb';
+import { ReadonlyJSONValue } from '@lumino/coreutils';
+import { ISignal, Signal } from '@lumino/signaling';
+
+import { ChangeSource } from './attribution';
+import { diffNotebooks } from './diff';
+
+/**
+ * The kind of an event log entry
+ *
+ * - `change`: an external change was detected
+ * - `refresh`: external changes were applied (reloaded or merged)
+ * - `conflict`: a conflict with unsaved changes was resolved
+ * - `skipped`: a change was deliberately not applied
+ * - `error`: applying a change failed
+ */
+export type EventType = 'change' | 'refresh' | 'conflict' | 'skipped' | 'error';
+
+/**
+ * Cell counts of a notebook change
+ */
+export interface IDiffSummary {
+  added: number;
+  removed: number;
+  modified: number;
+}
+
+/**
+ * An entry of the event log
+ */
+export interface IEventLogEntry {
+  id: number;
+  time: number; // when the event happened
+  type: EventType;
+  path: string;
+  message: string;
+  source?: ChangeSource; // who changed the file
+  fileTime?: number; // last modified time of the file on disk
+  resolution?: string; // how a conflict was resolved
+  diff?: IDiffSummary;
+}
+
+/**
+ * State database key of the saved event log
+ */
+const STATE_KEY = 'jupyterlab-claude-code-refresh:event-log';
+
+/**
+ * Maximum number of entries kept, the oldest being dropped first
+ */
+const MAX_ENTRIES = 1000;
+
+/**
+ * Delay before saving the log after a change, to batch bursts of events
+ */
+const SAVE_DELAY = 1000;
+
+/**
+ * Summarize the cell changes between two versions of a notebook
+ */
+export function summarizeDiff(
+  before: nbformat.INotebookContent,
+  after: nbformat.INotebookContent
+): IDiffSummary {
+  const summary: IDiffSummary = { added: 0, removed: 0, modified: 0 };
+  diffNotebooks(before, after).forEach(diff => {
+    if (diff.type !== 'unchanged') {
+      summary[diff.type]++;
+    }
+  });
+  return summary;
+}
+
+/**
+ * Structured log of external changes and what was done about them
+ *
+ * Entries are kept across reloads in the state database, when available,
+ * and can be exported as JSON Lines.
+ */
+export class EventLog {
+  private _entries: IEventLogEntry[] = []; // oldest first
+  private _changed = new Signal<this, void>(this);
+  private _state: IStateDB | null = null;
+  private _saveTimer: number | null = null;
+  private _counter = 0;
+
+  /**
+   * A signal emitted when entries are added or cleared
+   */
+  get changed(): ISignal<this, void> {
+    return this._changed;
+  }
+
+  /**
+   * The logged entries, oldest first
+   */
+  get entries(): ReadonlyArray<IEventLogEntry> {
+    return this._entries;
+  }
+
+  /**
+   * Restore the saved entries and save every change from now on
+   *
+   * Entries logged before the restore are kept after the saved ones.
+   */
+  async restore(state: IStateDB): Promise<void> {
+    this._state = state;
+    const saved = await state.fetch(STATE_KEY);
+    if (Array.isArray(saved)) {
+      const entries = saved as unknown as IEventLogEntry[];
+      this._entries = [...entries, ...this._entries].slice(-MAX_ENTRIES);
+      this._counter = Math.max(0, ...this._entries.map(entry => entry.id));
+      this._changed.emit();
+    }
+  }
+
+  /**
+   * Log an event
+   */
+  add(entry: Omit<IEventLogEntry, 'id' | 'time'>): IEventLogEntry {
+    const logged = { id: ++this._counter, time: Date.now(), ...entry };
+    this._entries.push(logged);
+    if (this._entries.length > MAX_ENTRIES) {
+      this._entries.splice(0, this._entries.length - MAX_ENTRIES);
+    }
+    this._changed.emit();
+    this._scheduleSave();
+    return logged;
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void {
+    this._entries = [];
+    this._changed.emit();
+    this._scheduleSave();
+  }
+
+  /**
+   * Export entries as JSON Lines, one entry per line
+   */
+  toJSONL(entries: ReadonlyArray<IEventLogEntry> = this._entries): string {
+    return entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+  }
+
+  /**
+   * Stop saving changes
+   */
+  dispose(): void {
+    if (this._saveTimer !== null) {
+      window.clearTimeout(this._saveTimer);
+      this._saveTimer = null;
+    }
+    Signal.clearData(this);
+  }
+
+  /**
+   * Save the entries to the state database shortly
+   */
+  private _scheduleSave(): void {
+    if (!this._state || this._saveTimer !== null) {
+      return;
+    }
+    this._saveTimer = window.setTimeout(() => {
+      this._saveTimer = null;
+      this._state
+        ?.save(STATE_KEY, this._entries as unknown as ReadonlyJSONValue)
+        .catch(error =>
+          console.warn('Claude Code Auto-Refresh: could not save log', error)
+        );
+    }, SAVE_DELAY);
+  }
+}
@@ -0,0 +1,199 @@
+import { listIcon } from '@jupyterlab/ui-components';
+import { Widget } from '@lumino/widgets';
+
+import { SOURCE_LABELS } from './attribution';
+import { EventLog, EventType, IEventLogEntry } from './eventlog';
+
+/**
+ * Labels of the event types, in filter order
+ */
+const TYPE_LABELS: Record<EventType, string> = {
+  change: 'Change detected',
+  refresh: 'Refresh applied',
+  conflict: 'Conflict resolved',
+  skipped: 'Not applied',
+  error: 'Refresh failed'
+};
+
+/**
+ * ID of the event log panel
+ */
+export const LOG_PANEL_ID = 'jp-claude-code-refresh-log';
+
+/**
+ * Dockable panel listing the event log, with filters and JSONL export
+ */
+export class EventLogPanel extends Widget {
+  private _log: EventLog;
+  private _typeFilter: HTMLSelectElement;
+  private _pathFilter: HTMLInputElement;
+  private _list: HTMLElement;
+
+  constructor(log: EventLog) {
+    super();
+    this.id = LOG_PANEL_ID;
+    this.addClass('jp-claude-code-refresh-log');
+    this.title.icon = listIcon;
+    this.title.caption = 'Claude Code Refresh Log';
+
+    const header = document.createElement('h2');
+    header.className = 'jp-claude-code-refresh-history-title';
+    header.textContent = 'Refresh Log';
+    this.node.appendChild(header);
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'jp-claude-code-refresh-log-toolbar';
+
+    this._typeFilter = document.createElement('select');
+    this._typeFilter.className = 'jp-mod-styled';
+    this._typeFilter.title = 'Show only one kind of event';
+    this._typeFilter.add(new Option('All events', ''));
+    (Object.keys(TYPE_LABELS) as EventType[]).forEach(type => {
+      this._typeFilter.add(new Option(TYPE_LABELS[type], type));
+    });
+    this._typeFilter.onchange = () => this._render();
+    toolbar.appendChild(this._typeFilter);
+
+    this._pathFilter = document.createElement('input');
+    this._pathFilter.className = 'jp-mod-styled';
+    this._pathFilter.type = 'search';
+    this._pathFilter.placeholder = 'Filter by path';
+    this._pathFilter.oninput = () => this._render();
+    toolbar.appendChild(this._pathFilter);
+
+    toolbar.appendChild(
+      this._createButton('Export', () => this._export(), 'Download as JSONL')
+    );
+    toolbar.appendChild(
+      this._createButton('Clear', () => this._log.clear(), 'Clear the log')
+    );
+    this.node.appendChild(toolbar);
+
+    this._list = document.createElement('ul');
+    this._list.className = 'jp-claude-code-refresh-log-list';
+    this.node.appendChild(this._list);
+
+    this._log = log;
+    this._log.changed.connect(this._render, this);
+    this._render();
+  }
+
+  /**
+   * Dispose of the panel
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this._log.changed.disconnect(this._render, this);
+    super.dispose();
+  }
+
+  /**
+   * The entries matching the filters, oldest first
+   */
+  private _filtered(): IEventLogEntry[] {
+    const type = this._typeFilter.value;
+    const path = this._pathFilter.value.trim().toLowerCase();
+    return this._log.entries.filter(
+      entry =>
+        (!type || entry.type === type) &&
+        (!path || entry.path.toLowerCase().includes(path))
+    );
+  }
+
+  /**
+   * Render the matching entries, newest first
+   */
+  private _render(): void {
+    this._list.textContent = '';
+
+    const entries = this._filtered().reverse();
+    if (!entries.length) {
+      const empty = document.createElement('li');
+      empty.className = 'jp-claude-code-refresh-history-empty';
+      empty.textContent = this._log.entries.length
+        ? 'No events match the filters.'
+        : 'External changes and refreshes are logged here.';
+      this._list.appendChild(empty);
+      return;
+    }
+
+    entries.forEach(entry => this._list.appendChild(this._createItem(entry)));
+  }
+
+  /**
+   * Create the list item for an entry
+   */
+  private _createItem(entry: IEventLogEntry): HTMLElement {
+    const item = document.createElement('li');
+    item.className = `jp-claude-code-refresh-log-item jp-mod-${entry.type}`;
+
+    const title = document.createElement('div');
+    title.className = 'jp-claude-code-refresh-log-title';
+    const time = document.createElement('span');
+    time.textContent = new Date(entry.time).toLocaleTimeString();
+    time.title = new Date(entry.time).toLocaleString();
+    const path = document.createElement('span');
+    path.className = 'jp-claude-code-refresh-log-path';
+    path.textContent = entry.path.split('/').pop() ?? entry.path;
+    path.title = entry.path;
+    title.append(time, path);
+    item.appendChild(title);
+
+    const message = document.createElement('div');
+    message.textContent = entry.message;
+    item.appendChild(message);
+
+    const details: string[] = [TYPE_LABELS[entry.type]];
+    if (entry.source) {
+      details.push(`by ${SOURCE_LABELS[entry.source]}`);
+    }
+    if (entry.resolution) {
+      details.push(`resolution: ${entry.resolution}`);
+    }
+    if (entry.diff) {
+      const { added, removed, modified } = entry.diff;
+      details.push(`+${added} −${removed} ~${modified} cells`);
+    }
+    const detail = document.createElement('div');
+    detail.className = 'jp-claude-code-refresh-log-detail';
+    detail.textContent = details.join(' · ');
+    item.appendChild(detail);
+
+    return item;
+  }
+
+  /**
+   * Download the matching entries as JSON Lines
+   */
+  private _export(): void {
+    const blob = new Blob([this._log.toJSONL(this._filtered())], {
+      type: 'application/jsonl'
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `claude-code-refresh-log-${new Date()
+      .toISOString()
+      .replace(/[:.]/g, '-')}.jsonl`;
+    link.click();
+    window.setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  /**
+   * Create a small action button
+   */
+  private _createButton(
+    label: string,
+    onClick: () => void,
+    title: string
+  ): HTMLElement {
+    const button = document.createElement('button');
+    button.className = 'jp-mod-styled jp-mod-minimal';
+    button.textContent = label;
+    button.title = title;
+    button.onclick = onClick;
+    return button;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Compiled glob patterns, cached by pattern string
+ */
+const cache = new Map<string, RegExp>();
+
+/**
+ * Convert a glob pattern to the source of a regular expression
+ *
+ * Supports `**` (any number of path segments), `*` (anything but `/`),
+ * `?` (a single character other than `/`) and `{a,b}` alternatives, each
+ * alternative being a pattern of its own.
+ */
+function globToSource(pattern: string): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` also matches no directory at all
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        const options = pattern
+          .slice(i + 1, end)
+          .split(',')
+          .map(globToSource);
+        source += `(?:${options.join('|')})`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching whole paths
+ */
+function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${globToSource(pattern)}$`);
+}
+
+/**
+ * Whether a path matches a glob pattern
+ */
+export function matchGlob(path: string, pattern: string): boolean {
+  let regexp = cache.get(pattern);
+  if (!regexp) {
+    regexp = globToRegExp(pattern);
+    cache.set(pattern, regexp);
+  }
+  return regexp.test(path);
+}
+
+/**
+ * Whether a path matches any of the glob patterns
+ */
+export function matchAnyGlob(path: string, patterns: string[]): boolean {
+  return patterns.some(pattern => matchGlob(path, pattern));
+}
@@ -0,0 +1,35 @@
+import { URLExt } from '@jupyterlab/coreutils';
+import { ServerConnection } from '@jupyterlab/services';
+
+/**
+ * The route of the server extension endpoints
+ */
+export const ROUTE = 'jupyterlab-claude-code-refresh';
+
+/**
+ * Call a server extension endpoint and return its JSON response
+ *
+ * Throws a `ServerConnection.ResponseError` when the server answers with an
+ * error (404 when the server extension is not installed).
+ */
+export async function requestAPI<T>(
+  endPoint: string,
+  init: RequestInit = {},
+  serverSettings: ServerConnection.ISettings = ServerConnection.makeSettings()
+): Promise<T> {
+  const url = URLExt.join(serverSettings.baseUrl, ROUTE, endPoint);
+
+  let response: Response;
+  try {
+    response = await ServerConnection.makeRequest(url, init, serverSettings);
+  } catch (error) {
+    throw new ServerConnection.NetworkError(error as TypeError);
+  }
+
+  if (!response.ok) {
+    throw new ServerConnection.ResponseError(response);
+  }
+
+  const text = await response.text();
+  return (text ? JSON.parse(text) : null) as T;
+}
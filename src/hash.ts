@@ -0,0 +1,65 @@
+import * as nbformat from '@jupyterlab/nbformat';
+
+/**
+ * Hash a string (53-bit cyrb53, as hex)
+ *
+ * This only needs to tell file versions apart, not resist tampering, so a
+ * fast synchronous hash is used instead of SubtleCrypto, which is not
+ * available on plain-HTTP deployments.
+ */
+export function hashString(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * Serialize a JSON value with sorted keys and joined multiline strings
+ */
+function canonicalize(value: any): string {
+  if (Array.isArray(value)) {
+    if (value.length && value.every(item => typeof item === 'string')) {
+      return JSON.stringify(value.join(''));
+    }
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort();
+    return `{${keys
+      .map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Hash the document content of a notebook
+ *
+ * The hash ignores how the file happens to be serialized (key order,
+ * multiline string splitting, indentation) as well as cell IDs and the
+ * `trusted` flag, so the in-memory model and the file on disk hash the
+ * same whenever they hold the same cells.
+ */
+export function hashNotebook(content: nbformat.INotebookContent): string {
+  const cells = (content.cells ?? []).map(cell => {
+    const copy: any = { ...cell, metadata: { ...(cell.metadata ?? {}) } };
+    delete copy.id;
+    delete copy.metadata.trusted;
+    return copy;
+  });
+  return hashString(canonicalize({ metadata: content.metadata ?? {}, cells }));
+}
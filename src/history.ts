@@ -0,0 +1,149 @@
+import * as nbformat from '@jupyterlab/nbformat';
+import { ISignal, Signal } from '@lumino/signaling';
+
+/**
+ * A copy of a notebook taken before it was changed by a refresh
+ */
+export interface ISnapshot {
+  id: string;
+  path: string;
+  timestamp: number;
+  label: string;
+  content: nbformat.INotebookContent;
+}
+
+/**
+ * Bounded, per-path history of notebook snapshots
+ *
+ * Snapshots live in memory only; the oldest ones are dropped once a path
+ * holds more than `maxSnapshots`.
+ */
+export class SnapshotHistory {
+  private _snapshots: Map<string, ISnapshot[]> = new Map(); // path -> newest first
+  private _changed = new Signal<this, string>(this);
+  private _maxSnapshots: number;
+  private _counter = 0;
+
+  constructor(maxSnapshots: number) {
+    this._maxSnapshots = maxSnapshots;
+  }
+
+  /**
+   * A signal emitted with the path whose snapshots changed
+   */
+  get changed(): ISignal<this, string> {
+    return this._changed;
+  }
+
+  /**
+   * The maximum number of snapshots kept per path (0 disables history)
+   */
+  get maxSnapshots(): number {
+    return this._maxSnapshots;
+  }
+
+  set maxSnapshots(value: number) {
+    this._maxSnapshots = Math.max(0, value);
+    Array.from(this._snapshots.keys()).forEach(path => {
+      this._trim(path);
+      this._changed.emit(path);
+    });
+  }
+
+  /**
+   * Record a snapshot for a path
+   */
+  add(
+    path: string,
+    label: string,
+    content: nbformat.INotebookContent
+  ): ISnapshot | null {
+    if (this._maxSnapshots === 0) {
+      return null;
+    }
+
+    const snapshot: ISnapshot = {
+      id: `${Date.now()}-${this._counter++}`,
+      path,
+      timestamp: Date.now(),
+      label,
+      content
+    };
+    const snapshots = this._snapshots.get(path) ?? [];
+    snapshots.unshift(snapshot);
+    this._snapshots.set(path, snapshots);
+    this._trim(path);
+    this._changed.emit(path);
+
+    return snapshot;
+  }
+
+  /**
+   * Get a snapshot by ID
+   */
+  get(id: string): ISnapshot | undefined {
+    for (const snapshots of this._snapshots.values()) {
+      const snapshot = snapshots.find(item => item.id === id);
+      if (snapshot) {
+        return snapshot;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * List the snapshots of a path, newest first
+   */
+  list(path: string): ISnapshot[] {
+    return [...(this._snapshots.get(path) ?? [])];
+  }
+
+  /**
+   * List the paths that have snapshots
+   */
+  paths(): string[] {
+    return Array.from(this._snapshots.keys()).sort();
+  }
+
+  /**
+   * Move the snapshots of a path to a new path
+   */
+  rename(oldPath: string, newPath: string): void {
+    const snapshots = this._snapshots.get(oldPath);
+    if (!snapshots) {
+      return;
+    }
+    snapshots.forEach(snapshot => (snapshot.path = newPath));
+    this._snapshots.delete(oldPath);
+    this._snapshots.set(newPath, [
+      ...snapshots,
+      ...(this._snapshots.get(newPath) ?? [])
+    ]);
+    this._trim(newPath);
+    this._changed.emit(oldPath);
+    this._changed.emit(newPath);
+  }
+
+  /**
+   * Drop all snapshots
+   */
+  clear(): void {
+    const paths = this.paths();
+    this._snapshots.clear();
+    paths.forEach(path => this._changed.emit(path));
+  }
+
+  /**
+   * Drop the oldest snapshots of a path beyond the limit
+   */
+  private _trim(path: string): void {
+    const snapshots = this._snapshots.get(path);
+    if (!snapshots) {
+      return;
+    }
+    snapshots.splice(this._maxSnapshots);
+    if (!snapshots.length) {
+      this._snapshots.delete(path);
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import * as nbformat from '@jupyterlab/nbformat';
+import { historyIcon } from '@jupyterlab/ui-components';
+import { Widget } from '@lumino/widgets';
+
+import { cellOutputs, cellSource, outputsToText } from './diff';
+import { ISnapshot, SnapshotHistory } from './history';
+
+/**
+ * Actions the history panel can run on a snapshot
+ */
+export interface ISnapshotActions {
+  preview(snapshot: ISnapshot): void;
+  diff(snapshot: ISnapshot): void;
+  restore(snapshot: ISnapshot): void;
+}
+
+/**
+ * Sidebar panel listing the refresh snapshots of each notebook
+ */
+export class SnapshotHistoryPanel extends Widget {
+  private _history: SnapshotHistory;
+  private _actions: ISnapshotActions;
+
+  constructor(history: SnapshotHistory, actions: ISnapshotActions) {
+    super();
+    this.id = 'jp-claude-code-refresh-history';
+    this.addClass('jp-claude-code-refresh-history');
+    this.title.icon = historyIcon;
+    this.title.caption = 'Claude Code Refresh History';
+
+    this._history = history;
+    this._actions = actions;
+    this._history.changed.connect(this._render, this);
+    this._render();
+  }
+
+  /**
+   * Dispose of the panel
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this._history.changed.disconnect(this._render, this);
+    super.dispose();
+  }
+
+  /**
+   * Render the list of snapshots grouped by path
+   */
+  private _render(): void {
+    this.node.textContent = '';
+
+    const header = document.createElement('h2');
+    header.className = 'jp-claude-code-refresh-history-title';
+    header.textContent = 'Refresh History';
+    this.node.appendChild(header);
+
+    const paths = this._history.paths();
+    if (!paths.length) {
+      const empty = document.createElement('p');
+      empty.className = 'jp-claude-code-refresh-history-empty';
+      empty.textContent =
+        'A snapshot is saved here before each automatic refresh.';
+      this.node.appendChild(empty);
+      return;
+    }
+
+    paths.forEach(path => {
+      const group = document.createElement('section');
+      group.className = 'jp-claude-code-refresh-history-group';
+
+      const title = document.createElement('h3');
+      title.textContent = path.split('/').pop() ?? path;
+      title.title = path;
+      group.appendChild(title);
+
+      const list = document.createElement('ul');
+      this._history.list(path).forEach(snapshot => {
+        list.appendChild(this._createItem(snapshot));
+      });
+      group.appendChild(list);
+
+      this.node.appendChild(group);
+    });
+  }
+
+  /**
+   * Create the list item for a snapshot
+   */
+  private _createItem(snapshot: ISnapshot): HTMLElement {
+    const item = document.createElement('li');
+    item.className = 'jp-claude-code-refresh-history-item';
+
+    const label = document.createElement('span');
+    label.className = 'jp-claude-code-refresh-history-label';
+    label.textContent = `${new Date(
+      snapshot.timestamp
+    ).toLocaleTimeString()} · ${snapshot.label}`;
+    label.title = new Date(snapshot.timestamp).toLocaleString();
+    item.appendChild(label);
+
+    const actions = document.createElement('span');
+    actions.className = 'jp-claude-code-refresh-history-actions';
+    actions.appendChild(
+      this._createButton('Preview', () => this._actions.preview(snapshot))
+    );
+    actions.appendChild(
+      this._createButton('Diff', () => this._actions.diff(snapshot))
+    );
+    actions.appendChild(
+      this._createButton('Restore', () => this._actions.restore(snapshot))
+    );
+    item.appendChild(actions);
+
+    return item;
+  }
+
+  /**
+   * Create a small action button
+   */
+  private _createButton(label: string, onClick: () => void): HTMLElement {
+    const button = document.createElement('button');
+    button.className = 'jp-mod-styled jp-mod-minimal';
+    button.textContent = label;
+    button.onclick = onClick;
+    return button;
+  }
+}
+
+/**
+ * Read-only rendering of a notebook snapshot
+ */
+export class SnapshotPreview extends Widget {
+  constructor(content: nbformat.INotebookContent) {
+    super();
+    this.addClass('jp-claude-code-refresh-preview');
+
+    (content.cells ?? []).forEach(cell => {
+      const node = document.createElement('div');
+      node.className = `jp-claude-code-refresh-preview-cell jp-mod-${cell.cell_type}`;
+
+      const source = document.createElement('pre');
+      source.textContent = cellSource(cell);
+      node.appendChild(source);
+
+      const outputs = outputsToText(cellOutputs(cell));
+      if (outputs) {
+        const output = document.createElement('pre');
+        output.className = 'jp-claude-code-refresh-diff-outputs';
+        output.textContent = outputs;
+        node.appendChild(output);
+      }
+
+      this.node.appendChild(node);
+    });
+  }
+}
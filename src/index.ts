@@ -5,23 +5,165 @@ import {
 
 import { IDocumentManager } from '@jupyterlab/docmanager';
 import { DocumentRegistry } from '@jupyterlab/docregistry';
-import { showDialog, showErrorMessage, Dialog } from '@jupyterlab/apputils';
+import { IDefaultFileBrowser } from '@jupyterlab/filebrowser';
+import {
+  showDialog,
+  showErrorMessage,
+  Dialog,
+  ICommandPalette,
+  Notification
+} from '@jupyterlab/apputils';
 import { ISettingRegistry } from '@jupyterlab/settingregistry';
-import { Contents } from '@jupyterlab/services';
-import { Signal } from '@lumino/signaling';
+import { IStateDB } from '@jupyterlab/statedb';
+import { IStatusBar } from '@jupyterlab/statusbar';
+import {
+  pauseIcon,
+  refreshIcon,
+  runIcon,
+  undoIcon
+} from '@jupyterlab/ui-components';
+import { PathExt } from '@jupyterlab/coreutils';
+import { Contents, ServerConnection } from '@jupyterlab/services';
+import * as nbformat from '@jupyterlab/nbformat';
+import { Cell, CodeCell } from '@jupyterlab/cells';
+import {
+  INotebookTracker,
+  Notebook,
+  NotebookActions,
+  NotebookModel,
+  NotebookPanel
+} from '@jupyterlab/notebook';
+import { IDisposable } from '@lumino/disposable';
+import { ISignal, Signal } from '@lumino/signaling';
+
+import { ChangeSource, fetchChangeSource, SOURCE_LABELS } from './attribution';
+import { pruneBackups, writeBackup } from './backup';
+import { FileBrowserBadges } from './badges';
+import { CHANGED_PANEL_ID, ChangedFilesPanel } from './changedpanel';
+import {
+  isCollaborative,
+  isRefreshLeader,
+  joinRefreshElection
+} from './collab';
+import { composeNotebook, diffCells, diffNotebooks } from './diff';
+import { DocumentContext, DocumentTracker, diskFormat } from './documents';
+import { fetchActiveEdits } from './edits';
+import { EventLog, EventType, IEventLogEntry, summarizeDiff } from './eventlog';
+import { matchAnyGlob } from './glob';
+import { hashNotebook, hashString } from './hash';
+import { CellDiffWidget } from './diffview';
+import { ISnapshot, SnapshotHistory } from './history';
+import { SnapshotHistoryPanel, SnapshotPreview } from './historypanel';
+import { EventLogPanel, LOG_PANEL_ID } from './eventlogpanel';
+import { DocumentLocks, ILockOptions } from './lock';
+import { MergeChoice, mergeNotebooks, resolveMerge } from './merge';
+import { keepLocalOutputs } from './outputs';
+import { changedCellIndices, StaleCells } from './stale';
+import { patchNotebook } from './patch';
+import { PollScheduler, runConcurrently } from './scheduler';
+import {
+  ConflictResolution,
+  IPolicyRule,
+  IRefreshPolicy,
+  METADATA_KEY,
+  resolvePolicy
+} from './policy';
+import { RefreshStatus, RefreshStatusItem } from './status';
+import {
+  ConflictResolver,
+  IBeforeRefresh,
+  IClaudeCodeRefresh,
+  IConflict,
+  IExternalChange,
+  IRefreshed
+} from './tokens';
+import { IFileChangeEvent, ServerFileWatcher } from './watcher';
+import { WorkspaceWatcher } from './workspace';
+import {
+  captureEditorState,
+  captureViewState,
+  restoreEditorState,
+  restoreViewState
+} from './viewstate';
 
 /**
  * Interface for plugin settings
  */
 type LogLevel = 'none' | 'info' | 'debug';
 
+type RefreshStrategy = 'revert' | 'patch';
+
 interface ISettings {
   enabled: boolean;
   refreshDelay: number;
+  refreshStrategy: RefreshStrategy;
   showNotifications: boolean;
   logLevel: LogLevel;
-  conflictResolution: 'ask' | 'keepLocal' | 'useExternal';
+  conflictResolution: ConflictResolution;
   showWelcomeBanner: boolean;
+  reviewChanges: boolean;
+  maxSnapshots: number;
+  backupDirectory: string;
+  maxBackups: number;
+  preserveOutputs: boolean;
+  lockOnExternalChange: boolean;
+  lockQuietPeriod: number;
+  includePatterns: string[];
+  excludePatterns: string[];
+  watchDirectories: string[];
+  rules: IPolicyRule[];
+}
+
+/**
+ * A refresh toast, updated in place while a file keeps being refreshed
+ */
+interface IRefreshToast {
+  id: string;
+  count: number;
+  updated: number;
+  snapshot: ISnapshot | null; // taken before the first grouped refresh
+  hadLocalChanges: boolean; // whether that refresh discarded unsaved edits
+  backup: string | null; // copy of the unsaved edits discarded
+}
+
+/**
+ * How long a document stays locked when its edit is never reported done
+ */
+const ANNOUNCED_EDIT_TIMEOUT = 120000;
+
+/**
+ * How long a refresh toast stays visible, and so keeps grouping refreshes
+ */
+const REFRESH_TOAST_TIMEOUT = 5000;
+
+/**
+ * Class added to the tab title of documents deleted on disk
+ */
+const DELETED_CLASS = 'jp-claude-code-refresh-deleted';
+
+/**
+ * Class added to kept output areas whose cell source has changed since
+ */
+const STALE_OUTPUTS_CLASS = 'jp-claude-code-refresh-stale-outputs';
+
+/**
+ * Number of files (or directories) checked at once while polling
+ */
+const MAX_CONCURRENT_CHECKS = 4;
+
+/**
+ * Number of recently created files checked when looking for a renamed file
+ */
+const MAX_MOVE_CANDIDATES = 5;
+
+/**
+ * Whether a Contents API error means the file does not exist
+ */
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof ServerConnection.ResponseError &&
+    error.response.status === 404
+  );
 }
 
 /**
@@ -29,34 +171,361 @@ interface ISettings {
  *
  * Automatically refreshes notebooks when they are modified externally by Claude Code
  */
-class ClaudeCodeAutoRefresh {
+class ClaudeCodeAutoRefresh implements IClaudeCodeRefresh {
   private _app: JupyterFrontEnd;
   private _contentsManager: Contents.IManager;
+  private _docManager: IDocumentManager;
+  private _documents: DocumentTracker;
   private _settings: ISettings;
   private _settingsRegistry: ISettingRegistry | null = null;
   private _refreshTimers: Map<string, number> = new Map();
   private _showNotifications: boolean;
-  private _debugTimer: number | null = null;
+  private _scheduler: PollScheduler;
   private _lastSeenFiles: Map<string, number> = new Map(); // path -> last modified time
-  private _lastUserSaves: Map<string, number> = new Map(); // track user-initiated saves
+  private _lastSeenContent: Map<string, nbformat.INotebookContent> = new Map(); // path -> merge base
+  private _lastSeenHashes: Map<string, string> = new Map(); // path -> hash of content last saved or loaded
+  private _changeSources: Map<string, ChangeSource> = new Map(); // path -> writer of the last external change
   private _activeConflictDialogs: Map<string, any> = new Map(); // track open dialogs per file
-  private _activeNotifications: Map<string, any> = new Map(); // track open notifications per file
+  private _activeNotifications: Map<string, IRefreshToast> = new Map(); // refresh toast per file
+  private _activeReviews: Set<string> = new Set(); // files with an open diff review
+  private _pendingReviews: Set<string> = new Set(); // files changed again during review
+  private _deletedPaths: Set<string> = new Set(); // open files deleted on disk
+  private _locks = new DocumentLocks();
+  private _announcedEditTimers: Map<string, number> = new Map(); // path -> timer releasing an edit never reported done
+  private _canFetchEdits = true; // false when the server extension is missing
+  private _history: SnapshotHistory;
+  private _serverWatcher: ServerFileWatcher | null = null;
+  private _status = new RefreshStatus();
+  private _paused = false;
+  private _pausedPaths: Set<string> = new Set(); // documents paused individually
+  private _staleCells = new StaleCells();
+  private _eventLog = new EventLog();
+  private _workspace: WorkspaceWatcher;
+  private _conflictResolvers: ConflictResolver[] = []; // most recent first
+  private _externalChangeDetected = new Signal<
+    IClaudeCodeRefresh,
+    IExternalChange
+  >(this);
+  private _beforeRefresh = new Signal<IClaudeCodeRefresh, IBeforeRefresh>(this);
+  private _refreshed = new Signal<IClaudeCodeRefresh, IRefreshed>(this);
+  private _conflict = new Signal<IClaudeCodeRefresh, IConflict>(this);
   private _hasShownWelcome = false;
 
-  constructor(app: JupyterFrontEnd, contentsManager: Contents.IManager) {
+  constructor(
+    app: JupyterFrontEnd,
+    contentsManager: Contents.IManager,
+    docManager: IDocumentManager,
+    documents: DocumentTracker
+  ) {
     this._app = app;
     this._contentsManager = contentsManager;
+    this._docManager = docManager;
+    this._documents = documents;
     this._showNotifications = true;
     this._settings = {
       enabled: true,
       refreshDelay: 500,
+      refreshStrategy: 'revert',
       showNotifications: false,
       logLevel: 'none',
-      conflictResolution: 'ask',
-      showWelcomeBanner: true
+      conflictResolution: 'merge',
+      showWelcomeBanner: true,
+      reviewChanges: false,
+      maxSnapshots: 20,
+      backupDirectory: '',
+      maxBackups: 5,
+      preserveOutputs: false,
+      lockOnExternalChange: false,
+      lockQuietPeriod: 0,
+      includePatterns: ['**/*'],
+      excludePatterns: ['**/.ipynb_checkpoints/**'],
+      watchDirectories: [],
+      rules: []
+    };
+    this._history = new SnapshotHistory(this._settings.maxSnapshots);
+    this._scheduler = new PollScheduler({
+      interval: () => this._settings.refreshDelay * 2, // 2x refresh delay
+      tick: () => this._pollTick()
+    });
+    this._workspace = new WorkspaceWatcher({
+      contents: contentsManager,
+      serverSettings: app.serviceManager.serverSettings,
+      isWatched: path => !this._paused && this._isWatchedPath(path),
+      openPaths: () => this._documents.contexts.map(context => context.path)
+    });
+  }
+
+  /**
+   * The snapshots taken before each refresh
+   */
+  get history(): SnapshotHistory {
+    return this._history;
+  }
+
+  /**
+   * The closed notebooks changed on disk in the watched directories
+   */
+  get workspace(): WorkspaceWatcher {
+    return this._workspace;
+  }
+
+  /**
+   * The structured log of external changes and refreshes
+   */
+  get eventLog(): EventLog {
+    return this._eventLog;
+  }
+
+  /**
+   * A signal emitted when an open document is changed on disk by another
+   * program
+   */
+  get externalChangeDetected(): ISignal<IClaudeCodeRefresh, IExternalChange> {
+    return this._externalChangeDetected;
+  }
+
+  /**
+   * A signal emitted before every automatic refresh, which can cancel it
+   */
+  get beforeRefresh(): ISignal<IClaudeCodeRefresh, IBeforeRefresh> {
+    return this._beforeRefresh;
+  }
+
+  /**
+   * A signal emitted once a document has been updated from disk
+   */
+  get refreshed(): ISignal<IClaudeCodeRefresh, IRefreshed> {
+    return this._refreshed;
+  }
+
+  /**
+   * A signal emitted when a document with unsaved changes is modified
+   * externally
+   */
+  get conflict(): ISignal<IClaudeCodeRefresh, IConflict> {
+    return this._conflict;
+  }
+
+  /**
+   * The read-only locks of the open documents
+   *
+   * Its `changed` signal is emitted whenever a document is locked or
+   * unlocked, so other extensions can react to the lock state.
+   */
+  get locks(): DocumentLocks {
+    return this._locks;
+  }
+
+  /**
+   * The watcher state shown in the status bar
+   */
+  get status(): RefreshStatus {
+    return this._status;
+  }
+
+  /**
+   * Whether watching is paused (external changes are ignored meanwhile)
+   */
+  get paused(): boolean {
+    return this._paused;
+  }
+
+  set paused(value: boolean) {
+    if (value === this._paused) {
+      return;
+    }
+    this._paused = value;
+    this._updateStatusState();
+    this._logInfo(value ? 'Watching paused' : 'Watching resumed');
+
+    // Pick up whatever changed while paused
+    if (!value) {
+      void this._checkFilesForChanges();
+    }
+  }
+
+  /**
+   * Whether watching is paused for a single document
+   */
+  public isPathPaused(path: string): boolean {
+    return this._pausedPaths.has(path);
+  }
+
+  /**
+   * Pause or resume watching a single document
+   */
+  public setPathPaused(path: string, paused: boolean): void {
+    if (paused === this._pausedPaths.has(path)) {
+      return;
+    }
+    if (paused) {
+      this._pausedPaths.add(path);
+    } else {
+      this._pausedPaths.delete(path);
+    }
+    this._logInfo(
+      paused ? 'Watching paused for' : 'Watching resumed for',
+      path
+    );
+    this._status.addEvent(
+      path,
+      paused ? 'Watching paused' : 'Watching resumed'
+    );
+
+    const document = this._findOpenDocument(path);
+    if (!paused && document && !this._paused) {
+      this._checkFileForChanges(document.context).catch(error =>
+        this._logInfo('Error checking file for changes', error)
+      );
+    }
+  }
+
+  /**
+   * Check every open document for external changes right away
+   *
+   * Runs even while watching is paused, since it is explicitly requested.
+   */
+  public async checkNow(): Promise<void> {
+    await this._checkFilesForChanges(true);
+  }
+
+  /**
+   * Reload a document from disk right away
+   */
+  public async refreshNow(path: string): Promise<void> {
+    const document = this._findOpenDocument(path);
+    if (document) {
+      await this._refreshDocument(document.context);
+    }
+  }
+
+  /**
+   * Register a resolver deciding how conflicts are handled
+   */
+  public registerConflictResolver(resolver: ConflictResolver): IDisposable {
+    this._conflictResolvers.unshift(resolver);
+    let isDisposed = false;
+    return {
+      get isDisposed() {
+        return isDisposed;
+      },
+      dispose: () => {
+        isDisposed = true;
+        this._conflictResolvers = this._conflictResolvers.filter(
+          item => item !== resolver
+        );
+      }
     };
   }
 
+  /**
+   * Open a notebook changed on disk while closed
+   *
+   * Shows the changes since the version last seen in the editor, when it
+   * is still known.
+   */
+  public async openChangedFile(path: string): Promise<void> {
+    const seen = this._workspace.lastSeenContent(path);
+    this._workspace.seen(path);
+    await this._app.commands.execute('docmanager:open', { path });
+    if (!seen) {
+      return;
+    }
+
+    try {
+      const fileModel = await this._contentsManager.get(path, {
+        type: 'notebook',
+        content: true
+      });
+      const diffs = diffNotebooks(
+        seen,
+        fileModel.content as nbformat.INotebookContent
+      );
+      if (diffs.every(diff => diff.type === 'unchanged')) {
+        return;
+      }
+
+      await showDialog({
+        title: `Changes Since Last Seen: ${path.split('/').pop()}`,
+        body: new CellDiffWidget(diffs, {
+          localLabel: 'Last seen',
+          externalLabel: 'On disk',
+          selectable: false
+        }),
+        buttons: [Dialog.okButton({ label: 'Close' })]
+      });
+    } catch (error) {
+      this._logInfo('Error showing changes of closed notebook', error);
+    }
+  }
+
+  /**
+   * Whether a document has a snapshot to revert to
+   */
+  public canRevert(path: string): boolean {
+    return (
+      !!this._findOpenDocument(path) && this._history.list(path).length > 0
+    );
+  }
+
+  /**
+   * Revert a notebook to its most recent snapshot (before the last refresh)
+   */
+  public async revertLastRefresh(path: string): Promise<void> {
+    const document = this._findOpenDocument(path);
+    const [snapshot] = this._history.list(path);
+    if (document && snapshot) {
+      await this._restoreSnapshot(document.context, snapshot);
+    }
+  }
+
+  /**
+   * Open the diff review of a document against the file on disk
+   */
+  public async resolveConflict(path: string): Promise<void> {
+    const document = this._findOpenDocument(path);
+    if (document) {
+      await this._showDiffReview(document.context);
+    }
+  }
+
+  /**
+   * Whether a notebook has cells changed on disk since they were last run
+   */
+  public hasChangedCells(path: string): boolean {
+    const panel = this._findNotebookPanel(path);
+    return !!panel && this._staleCells.cells(panel.content).length > 0;
+  }
+
+  /**
+   * Run the cells changed on disk since they were last run
+   *
+   * With `andBelow`, every cell from the first changed one down is run, so
+   * the cells depending on the new code are brought up to date as well.
+   * Nothing is run while the notebook is locked.
+   */
+  public async runChangedCells(path: string, andBelow = false): Promise<void> {
+    const panel = this._findNotebookPanel(path);
+    if (!panel) {
+      return;
+    }
+    if (this._locks.reason(path) !== null) {
+      this._logInfo('Notebook locked, not running the changed cells', path);
+      return;
+    }
+
+    const notebook = panel.content;
+    const stale = this._staleCells.cells(notebook);
+    if (!stale.length) {
+      return;
+    }
+
+    const cells = andBelow
+      ? notebook.widgets.slice(notebook.widgets.indexOf(stale[0]))
+      : stale;
+    await NotebookActions.runCells(notebook, cells, panel.sessionContext);
+  }
+
   /**
    * Initialize the auto-refresh functionality
    */
@@ -69,22 +538,28 @@ class ClaudeCodeAutoRefresh {
     // Listen for file changes from the contents manager
     this._contentsManager.fileChanged.connect(this._onFileChanged, this);
 
-    // Track user-initiated saves by monitoring notebook context saves
-    this._setupSaveTracking();
+    // Running a cell brings its stale outputs up to date
+    NotebookActions.executed.connect(this._onCellExecuted, this);
+
+    // Follow documents as they open and close
+    this._trackDocuments();
 
     // Log initial state
     this._logInfo('Extension initialized and file watching enabled');
     this._logDebug('Contents manager:', this._contentsManager);
 
-    // Log currently open notebooks
-    const openNotebooks = this._getOpenNotebooks();
+    // Log currently open documents
+    const openDocuments = this._getOpenDocuments();
     this._logDebug(
-      'Currently open notebooks:',
-      openNotebooks.map(nb => nb.context.path)
+      'Currently open documents:',
+      openDocuments.map(doc => doc.context.path)
     );
 
-    // Set up polling for file changes (always enabled as fallback)
+    // Prefer change events pushed by the server extension, and poll for
+    // changes when it isn't installed or its connection drops
     this._startPolling();
+    this._connectServerWatcher();
+    this._workspace.start();
 
     // Show welcome banner if enabled in settings
     // Note: localStorage is only used when settings are unavailable
@@ -142,9 +617,26 @@ class ClaudeCodeAutoRefresh {
    */
   public updateSettings(settings: Partial<ISettings>): void {
     this._settings = { ...this._settings, ...settings };
+    this._history.maxSnapshots = this._settings.maxSnapshots;
+    this._scheduler.reschedule(); // wait with the new polling interval
+    this._workspace.directories = this._settings.enabled
+      ? this._settings.watchDirectories
+      : [];
+    this._updateStatusState();
     this._logDebug('Settings updated', this._settings);
   }
 
+  /**
+   * Update the status state from the settings and the paused flag
+   */
+  private _updateStatusState(): void {
+    if (!this._settings.enabled) {
+      this._status.state = 'disabled';
+    } else {
+      this._status.state = this._paused ? 'paused' : 'active';
+    }
+  }
+
   /**
    * Show welcome banner with usage tips
    */
@@ -205,141 +697,938 @@ Configure in Settings → Claude Code Auto-Refresh`;
 
   /**
    * Start polling for file changes
+   *
+   * While the server watcher is connected, each tick only keeps its list
+   * of watched paths up to date instead of checking every file.
    */
   private _startPolling(): void {
     this._logDebug('Starting file polling');
-
-    this._debugTimer = window.setInterval(() => {
-      this._checkFilesForChanges();
-    }, this._settings.refreshDelay * 2); // Poll at 2x refresh delay interval
+    this._scheduler.start();
   }
 
   /**
-   * Check open notebook files for changes (polling-based fallback)
+   * Run one polling tick
    */
-  private async _checkFilesForChanges(): Promise<void> {
-    // Check if auto-refresh is enabled
-    if (!this._settings.enabled) {
-      this._logDebug('Auto-refresh disabled, skipping polling check');
-      return;
-    }
-
-    try {
-      const openNotebooks = this._getOpenNotebooks();
-
-      this._logDebug('Polling check - open notebooks:', openNotebooks.length);
-
-      for (const notebook of openNotebooks) {
-        const path = notebook.context.path;
-
-        this._logDebug('Checking file for changes:', path);
-
-        // Get file info from contents manager
-        const fileModel = await this._contentsManager.get(path, {
-          content: false
-        });
-        const lastModified = new Date(fileModel.last_modified).getTime();
-
-        // Check if file was modified since we last saw it
-        const lastSeen = this._lastSeenFiles.get(path);
-        const lastUserSave = this._lastUserSaves.get(path) || 0;
+  private async _pollTick(): Promise<void> {
+    const paths = this._getOpenDocuments().map(doc => doc.context.path);
+    this._status.watchedPaths = paths;
 
-        if (lastSeen && lastModified > lastSeen) {
-          // Check if this was a user-initiated save (within last 2 seconds)
-          const isUserSave = lastModified - lastUserSave < 2000;
+    if (this._serverWatcher?.isConnected) {
+      this._serverWatcher.watch(paths);
+    } else {
+      await this._syncAnnouncedEdits();
+      await this._checkFilesForChanges();
+    }
+  }
 
-          if (!isUserSave) {
-            this._logInfo('External change detected', {
-              path,
-              lastModified: new Date(lastModified)
-            });
+  /**
+   * Connect to the server-side file watcher, if installed
+   */
+  private async _connectServerWatcher(): Promise<void> {
+    const watcher = new ServerFileWatcher(
+      this._app.serviceManager.serverSettings
+    );
 
-            this._handleExternalChange(notebook.context);
-          } else {
-            this._logDebug('Ignoring user-initiated save for:', path);
-          }
-        }
+    if (!(await watcher.connect())) {
+      this._logInfo('Server file watcher not available, polling for changes');
+      watcher.dispose();
+      return;
+    }
 
-        // Update last seen time
-        this._lastSeenFiles.set(path, lastModified);
+    this._serverWatcher = watcher;
+    watcher.changed.connect(this._onServerFileChanged, this);
+    watcher.connectionChanged.connect((_, connected) => {
+      this._logInfo(
+        connected
+          ? 'Connected to server file watcher'
+          : 'Server file watcher disconnected, polling for changes'
+      );
+      if (connected) {
+        watcher.watch(this._getOpenDocuments().map(doc => doc.context.path));
       }
-    } catch (error) {
-      this._logInfo('Error during polling check', error);
-    }
+    }, this);
   }
 
   /**
-   * Handle file change events
+   * Handle a file change pushed by the server extension
    */
-  private _onFileChanged(
-    sender: Contents.IManager,
-    change: Contents.IChangedArgs
+  private _onServerFileChanged(
+    sender: ServerFileWatcher,
+    event: IFileChangeEvent
   ): void {
-    // Check if auto-refresh is enabled
-    if (!this._settings.enabled) {
-      this._logDebug('Auto-refresh disabled, ignoring file change event');
+    this._logDebug('Server file event', event);
+
+    const document = this._findOpenDocument(event.path);
+    if (!document) {
       return;
     }
 
-    this._logDebug('File change event detected', {
-      type: change.type,
-      oldValue: change.oldValue,
-      newValue: change.newValue,
-      timestamp: new Date().toISOString()
-    });
+    // Release the lock even if watching was paused during the edit
+    if (event.type === 'edited') {
+      this._finishAnnouncedEdit(document.context).catch(error =>
+        this._logInfo('Error checking file for changes', error)
+      );
+      return;
+    }
 
-    // Log ALL change types for debugging
-    if (change.newValue && change.newValue.path) {
-      this._logDebug('File path changed:', change.newValue.path);
+    if (
+      !this._settings.enabled ||
+      this._paused ||
+      this._pausedPaths.has(event.path)
+    ) {
+      return;
     }
 
-    // Process different types of events
-    if (change.type === 'save' && change.newValue) {
-      this._handleSaveEvent(change.newValue as Contents.IModel);
-    } else if (change.type === 'rename' && change.newValue) {
-      this._handleRenameEvent(
-        change.oldValue as Contents.IModel | null,
-        change.newValue as Contents.IModel
-      );
-    } else {
-      this._logDebug('Ignoring change type:', change.type);
+    if (event.type === 'editing') {
+      this._startAnnouncedEdit(document.context);
+      return;
     }
+
+    const check =
+      event.type === 'moved' && event.newPath
+        ? this._handleServerMove(document.context, event.newPath)
+        : this._checkFileForChanges(document.context);
+    check.catch(error =>
+      this._logInfo('Error checking file for changes', error)
+    );
   }
 
   /**
-   * Handle external changes with conflict resolution
+   * Handle a move reported by the server extension
    */
-  private async _handleExternalChange(
-    context: DocumentRegistry.IContext<any>
+  private async _handleServerMove(
+    context: DocumentRegistry.IContext<any>,
+    newPath: string
   ): Promise<void> {
-    // Check if auto-refresh is enabled
-    if (!this._settings.enabled) {
-      this._logDebug(
-        'Auto-refresh disabled, ignoring external change for:',
-        context.path
-      );
-      return;
+    // Editors that keep a backup move the file away and write a new one in
+    // its place; only follow the move if the file is really gone
+    if (await this._fileExists(context.path)) {
+      await this._checkFileForChanges(context);
+    } else {
+      await this._followMove(context, newPath);
     }
+  }
 
+  /**
+   * Lock a document while Claude Code announced it is editing it
+   *
+   * Changes on disk are ignored until the edit is reported done (or times
+   * out), so the document is refreshed exactly once, with the final result.
+   */
+  private _startAnnouncedEdit(context: DocumentRegistry.IContext<any>): void {
     const path = context.path;
 
-    // Check if notebook has unsaved changes
-    if (context.model.dirty) {
-      // Handle conflict based on user settings
-      switch (this._settings.conflictResolution) {
-        case 'ask':
-          await this._showConflictDialog(context);
-          break;
-        case 'keepLocal':
-          this._logInfo('Keeping local changes, ignoring external change');
-          if (this._settings.showNotifications) {
-            void showDialog({
-              title: 'External Change Detected',
-              body: `${path
-                .split('/')
+    const pendingRefresh = this._refreshTimers.get(path);
+    if (pendingRefresh !== undefined) {
+      window.clearTimeout(pendingRefresh);
+      this._refreshTimers.delete(path);
+    }
+
+    if (this._locks.reason(path) !== 'announced') {
+      this._logInfo('Claude Code started editing', path);
+      this._status.addEvent(path, 'Claude Code started editing');
+    }
+    this._lock(context, {
+      reason: 'announced',
+      message: 'Claude Code is editing this file…',
+      onOverride: () => {
+        this._finishAnnouncedEdit(context).catch(error =>
+          this._logInfo('Error checking file for changes', error)
+        );
+      }
+    });
+
+    window.clearTimeout(this._announcedEditTimers.get(path));
+    this._announcedEditTimers.set(
+      path,
+      window.setTimeout(() => {
+        this._logInfo('Announced edit timed out', context.path);
+        this._finishAnnouncedEdit(context).catch(error =>
+          this._logInfo('Error checking file for changes', error)
+        );
+      }, ANNOUNCED_EDIT_TIMEOUT)
+    );
+  }
+
+  /**
+   * Release the lock of an announced edit and pick up its result
+   */
+  private async _finishAnnouncedEdit(
+    context: DocumentRegistry.IContext<any>
+  ): Promise<void> {
+    const path = context.path;
+    window.clearTimeout(this._announcedEditTimers.get(path));
+    this._announcedEditTimers.delete(path);
+
+    if (this._locks.reason(path) === 'announced') {
+      this._locks.unlock(path);
+      this._logInfo('Claude Code finished editing', path);
+      this._status.addEvent(path, 'Claude Code finished editing');
+    }
+
+    if (
+      this._settings.enabled &&
+      !this._paused &&
+      !this._pausedPaths.has(path)
+    ) {
+      await this._checkFileForChanges(context);
+    }
+  }
+
+  /**
+   * Lock the open widgets of a document
+   */
+  private _lock(
+    context: DocumentRegistry.IContext<any>,
+    options: ILockOptions
+  ): void {
+    this._locks.lock(context.path, this._documents.widgets(context), options);
+  }
+
+  /**
+   * Lock a document after an external change until writes stop
+   *
+   * Each new write restarts the refresh timer, which unlocks the document
+   * once the changes are loaded; the user can unlock it earlier, loading
+   * the changes right away.
+   */
+  private _lockUntilQuiet(context: DocumentRegistry.IContext<any>): void {
+    if (this._locks.reason(context.path) === 'announced') {
+      return;
+    }
+    this._lock(context, {
+      reason: 'quiet',
+      message: 'Changing on disk, waiting for the writes to stop…',
+      onOverride: () => {
+        const path = context.path;
+        const timer = this._refreshTimers.get(path);
+        if (timer !== undefined) {
+          window.clearTimeout(timer);
+          this._refreshTimers.delete(path);
+        }
+        this._locks.unlock(path);
+        void this._refreshDocument(context);
+      }
+    });
+  }
+
+  /**
+   * Lock and release documents from the announced edits (polling fallback)
+   *
+   * Without the server watcher, edit announcements can't be pushed, so the
+   * edits in progress are fetched on every polling tick instead.
+   */
+  private async _syncAnnouncedEdits(): Promise<void> {
+    if (!this._canFetchEdits || !this._settings.enabled || this._paused) {
+      return;
+    }
+
+    let editing: Set<string>;
+    try {
+      editing = new Set(
+        await fetchActiveEdits(this._app.serviceManager.serverSettings)
+      );
+    } catch (error) {
+      if (isNotFound(error)) {
+        this._canFetchEdits = false;
+      }
+      this._logDebug('Could not fetch announced edits:', error);
+      return;
+    }
+
+    for (const { context } of this._getOpenDocuments()) {
+      const path = context.path;
+      const announced = this._locks.reason(path) === 'announced';
+      if (editing.has(path) && !announced && !this._pausedPaths.has(path)) {
+        this._startAnnouncedEdit(context);
+      } else if (!editing.has(path) && announced) {
+        try {
+          await this._finishAnnouncedEdit(context);
+        } catch (error) {
+          this._logInfo('Error checking file for changes', error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Check open files for changes (polling-based fallback)
+   */
+  private async _checkFilesForChanges(force = false): Promise<void> {
+    // Check if auto-refresh is enabled
+    if (!this._settings.enabled) {
+      this._logDebug('Auto-refresh disabled, skipping polling check');
+      return;
+    }
+    if (this._paused && !force) {
+      return;
+    }
+
+    const openDocuments = this._getOpenDocuments().filter(
+      doc => force || !this._pausedPaths.has(doc.context.path)
+    );
+
+    // Files that haven't changed for a while are checked less often
+    const due = new Set(
+      force
+        ? openDocuments.map(doc => doc.context.path)
+        : this._scheduler.duePaths(openDocuments.map(doc => doc.context.path))
+    );
+    const dueDocuments = openDocuments.filter(doc => due.has(doc.context.path));
+
+    this._logDebug('Polling check - due documents:', dueDocuments.length);
+
+    const listed = await this._listDirectories(Array.from(due));
+
+    // A failure on one file must not stop the others from being checked
+    await runConcurrently(
+      dueDocuments,
+      MAX_CONCURRENT_CHECKS,
+      async ({ context }) => {
+        const path = context.path;
+        let changed = false;
+        try {
+          changed = await this._checkFileForChanges(context, listed.get(path));
+        } catch (error) {
+          this._logInfo('Error during polling check', { path, error });
+        }
+        this._scheduler.record(path, changed);
+      }
+    );
+  }
+
+  /**
+   * Fetch the file models of a batch of files, one listing per directory
+   *
+   * Only directories with several files to check are listed; files not
+   * found in a listing are left to a check of their own.
+   */
+  private async _listDirectories(
+    paths: string[]
+  ): Promise<Map<string, Contents.IModel>> {
+    const directories = new Map<string, number>();
+    paths.forEach(path => {
+      const directory = PathExt.dirname(path);
+      directories.set(directory, (directories.get(directory) ?? 0) + 1);
+    });
+
+    const listed = new Map<string, Contents.IModel>();
+    await runConcurrently(
+      Array.from(directories.entries())
+        .filter(([, count]) => count > 1)
+        .map(([directory]) => directory),
+      MAX_CONCURRENT_CHECKS,
+      async directory => {
+        try {
+          const listing = await this._contentsManager.get(directory, {
+            type: 'directory',
+            content: true
+          });
+          (listing.content as Contents.IModel[]).forEach(item =>
+            listed.set(item.path, item)
+          );
+        } catch (error) {
+          this._logDebug('Could not list directory:', directory);
+        }
+      }
+    );
+    return listed;
+  }
+
+  /**
+   * Check a single open file for external changes
+   *
+   * Resolves whether the file was changed on disk by another program, or
+   * is gone. A new timestamp alone, e.g. after a save from JupyterLab, is
+   * not a change.
+   */
+  private async _checkFileForChanges(
+    context: DocumentRegistry.IContext<any>,
+    listed?: Contents.IModel
+  ): Promise<boolean> {
+    const path = context.path;
+
+    if (this._locks.reason(path) === 'announced') {
+      this._logDebug('Claude Code is still editing, skipping:', path);
+      return false;
+    }
+
+    if (isCollaborative(context.model)) {
+      joinRefreshElection(context.model);
+    }
+
+    this._logDebug('Checking file for changes:', path);
+
+    // Get file info from contents manager, unless a directory listing
+    // fetched for a batch of files already has it
+    let fileModel: Contents.IModel;
+    try {
+      fileModel =
+        listed ?? (await this._contentsManager.get(path, { content: false }));
+    } catch (error) {
+      if (isNotFound(error)) {
+        await this._handleMissingFile(context);
+        return true;
+      }
+      throw error;
+    }
+
+    if (this._deletedPaths.has(path)) {
+      this._logInfo('Deleted file is back on disk', path);
+      this._setDeleted(context, false);
+    }
+
+    const lastModified = new Date(fileModel.last_modified).getTime();
+
+    // Any timestamp change (not just a newer one) may be a new version;
+    // clocks on network filesystems and atomic renames can't be trusted
+    const lastSeen = this._lastSeenFiles.get(path);
+    if (!lastSeen || lastModified === lastSeen) {
+      this._lastSeenFiles.set(path, lastModified);
+      return false;
+    }
+
+    // Only the content tells whether someone else wrote the file: it is
+    // external if it matches neither what JupyterLab last saved or loaded
+    // nor what is currently in the editor. The timestamp is only recorded
+    // once the content is read, so a failed read is retried next time.
+    const diskContent = await this._fetchDiskContent(context);
+    const diskHash = this._hashContent(diskContent);
+    const seenHash = this._lastSeenHashes.get(path);
+    const modelHash = this._hashContent(this._modelContent(context));
+
+    if (diskHash === seenHash || diskHash === modelHash) {
+      this._logDebug('File content unchanged, ignoring timestamp for:', path);
+      this._lastSeenFiles.set(path, lastModified);
+      this._lastSeenHashes.set(path, diskHash);
+      return false;
+    }
+
+    // Remember this version so it is only reported once
+    this._lastSeenFiles.set(path, lastModified);
+    this._lastSeenHashes.set(path, diskHash);
+
+    const source = await fetchChangeSource(
+      path,
+      this._app.serviceManager.serverSettings
+    );
+    this._changeSources.set(path, source);
+
+    this._logInfo('External change detected', {
+      path,
+      source,
+      lastModified: new Date(lastModified)
+    });
+
+    this._status.addEvent(path, `Changed on disk by ${SOURCE_LABELS[source]}`);
+    this._externalChangeDetected.emit({ path, source });
+
+    const base = this._lastSeenContent.get(path);
+    this._logEvent('change', path, 'Changed on disk', {
+      fileTime: lastModified,
+      diff:
+        base && typeof diskContent !== 'string'
+          ? summarizeDiff(base, diskContent)
+          : undefined
+    });
+
+    // Handling may wait on a dialog, so the poll doesn't wait for it
+    this._handleExternalChange(context).catch(error => {
+      this._logInfo('Error handling external change', { path, error });
+      this._logEvent('error', path, `Could not handle the change: ${error}`);
+    });
+    return true;
+  }
+
+  /**
+   * Get the content of a document model (notebook JSON or text)
+   */
+  private _modelContent(
+    context: DocumentRegistry.IContext<any>
+  ): nbformat.INotebookContent | string {
+    return this._isNotebook(context)
+      ? (context.model.toJSON() as nbformat.INotebookContent)
+      : context.model.toString();
+  }
+
+  /**
+   * The format a document other than a notebook is read and written in
+   */
+  private _diskFormat(
+    context: DocumentRegistry.IContext<any>
+  ): 'text' | 'base64' {
+    return diskFormat(
+      context.contentsModel,
+      this._app.docRegistry.getFileTypesForPath(context.path)
+    );
+  }
+
+  /**
+   * Fetch the content of a document from disk (notebook JSON, or text or
+   * base64 for other files)
+   */
+  private async _fetchDiskContent(
+    context: DocumentRegistry.IContext<any>,
+    path = context.path
+  ): Promise<nbformat.INotebookContent | string> {
+    if (this._isNotebook(context)) {
+      const fileModel = await this._contentsManager.get(path, {
+        type: 'notebook',
+        content: true
+      });
+      return fileModel.content as nbformat.INotebookContent;
+    }
+
+    const fileModel = await this._contentsManager.get(path, {
+      type: 'file',
+      format: this._diskFormat(context),
+      content: true
+    });
+    return fileModel.content as string;
+  }
+
+  /**
+   * Hash document content independently of its serialization
+   */
+  private _hashContent(content: nbformat.INotebookContent | string): string {
+    return typeof content === 'string'
+      ? hashString(content)
+      : hashNotebook(content);
+  }
+
+  /**
+   * Whether a file exists on disk
+   */
+  private async _fileExists(path: string): Promise<boolean> {
+    try {
+      await this._contentsManager.get(path, { content: false });
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Handle an open file that is no longer on disk
+   *
+   * A file renamed in place is followed to its new name; anything else is
+   * flagged as deleted until it is saved again or comes back.
+   */
+  private async _handleMissingFile(
+    context: DocumentRegistry.IContext<any>
+  ): Promise<void> {
+    const path = context.path;
+    if (this._deletedPaths.has(path)) {
+      return;
+    }
+
+    const newPath = await this._findMovedFile(context);
+    if (newPath) {
+      await this._followMove(context, newPath);
+      return;
+    }
+
+    this._logInfo('File deleted on disk', path);
+    this._status.addEvent(path, 'Deleted on disk');
+    this._setDeleted(context, true);
+    await this._showDeletedDialog(context);
+  }
+
+  /**
+   * Look for the file under a new name in its directory
+   *
+   * Without the server extension a rename looks like a deletion, so the
+   * most recently created files with the same extension are compared with
+   * the content last seen on disk.
+   */
+  private async _findMovedFile(
+    context: DocumentRegistry.IContext<any>
+  ): Promise<string | null> {
+    const path = context.path;
+    const seenHash = this._lastSeenHashes.get(path);
+    if (!seenHash) {
+      return null;
+    }
+
+    let listing: Contents.IModel;
+    try {
+      listing = await this._contentsManager.get(PathExt.dirname(path), {
+        content: true
+      });
+    } catch (error) {
+      return null;
+    }
+
+    const openPaths = new Set(
+      this._getOpenDocuments().map(doc => doc.context.path)
+    );
+    const candidates = (listing.content as Contents.IModel[])
+      .filter(
+        item =>
+          item.type !== 'directory' &&
+          PathExt.extname(item.path) === PathExt.extname(path) &&
+          !openPaths.has(item.path)
+      )
+      .sort(
+        (a, b) => new Date(b.created).getTime() - new Date(a.created).getTime()
+      )
+      .slice(0, MAX_MOVE_CANDIDATES);
+
+    for (const candidate of candidates) {
+      try {
+        const content = await this._fetchDiskContent(context, candidate.path);
+        if (this._hashContent(content) === seenHash) {
+          return candidate.path;
+        }
+      } catch (error) {
+        this._logDebug('Could not read move candidate:', candidate.path);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Reopen a document at the path its file was moved to on disk
+   *
+   * A context only follows renames made through the Contents API, so the
+   * document is opened at its new path next to its first view, with the
+   * same widget factory and kernel, and its old views are closed. Unsaved
+   * changes are carried over to the new document. If it cannot be opened,
+   * the document is flagged as deleted.
+   */
+  private async _followMove(
+    context: DocumentRegistry.IContext<any>,
+    newPath: string
+  ): Promise<void> {
+    const oldPath = context.path;
+    const views = this._documents.widgets(context);
+    const kernel = context.sessionContext.session?.kernel;
+
+    this._logInfo('File moved on disk', { oldPath, newPath });
+    this._renamePathState(oldPath, newPath);
+
+    let reopened: DocumentRegistry.IContext<any> | undefined;
+    try {
+      const widget = this._docManager.openOrReveal(
+        newPath,
+        views.length ? this._documents.factoryName(views[0]) : undefined,
+        kernel ? { id: kernel.id, name: kernel.name } : undefined,
+        views.length ? { ref: views[0].id, mode: 'tab-after' } : undefined
+      );
+      reopened = widget ? this._docManager.contextForWidget(widget) : undefined;
+      await reopened?.ready;
+    } catch (error) {
+      this._logInfo('Could not reopen moved file', { newPath, error });
+      reopened = undefined;
+    }
+
+    if (!reopened) {
+      this._status.addEvent(oldPath, `Moved to ${newPath}, could not reopen`);
+      this._renamePathState(newPath, oldPath);
+      this._setDeleted(context, true);
+      return;
+    }
+
+    this._status.addEvent(newPath, `Moved from ${oldPath}`);
+    if (context.model.dirty && !isCollaborative(context.model)) {
+      if (this._isNotebook(context)) {
+        await this._applyNotebookContent(
+          reopened,
+          context.model.toJSON() as nbformat.INotebookContent
+        );
+      } else {
+        reopened.model.fromString(context.model.toString());
+      }
+      reopened.model.dirty = true;
+    }
+    views.forEach(view => view.dispose());
+  }
+
+  /**
+   * Move the state kept for a path (or a directory of paths) to a new path
+   */
+  private _renamePathState(oldPath: string, newPath: string): void {
+    const rename = (path: string): string | null => {
+      if (path === oldPath) {
+        return newPath;
+      }
+      if (path.startsWith(`${oldPath}/`)) {
+        return newPath + path.slice(oldPath.length);
+      }
+      return null;
+    };
+
+    const maps: Map<string, unknown>[] = [
+      this._lastSeenFiles,
+      this._lastSeenContent,
+      this._lastSeenHashes,
+      this._changeSources,
+      this._refreshTimers,
+      this._announcedEditTimers
+    ];
+    maps.forEach(map => {
+      Array.from(map.entries()).forEach(([path, value]) => {
+        const renamed = rename(path);
+        if (renamed) {
+          map.delete(path);
+          map.set(renamed, value);
+        }
+      });
+    });
+
+    [this._deletedPaths, this._pausedPaths].forEach(set => {
+      Array.from(set).forEach(path => {
+        const renamed = rename(path);
+        if (renamed) {
+          set.delete(path);
+          set.add(renamed);
+        }
+      });
+    });
+
+    this._history.paths().forEach(path => {
+      const renamed = rename(path);
+      if (renamed) {
+        this._history.rename(path, renamed);
+      }
+    });
+
+    this._locks.paths.forEach(path => {
+      const renamed = rename(path);
+      if (renamed) {
+        this._locks.rename(path, renamed);
+      }
+    });
+
+    this._status.conflicts.forEach(path => {
+      const renamed = rename(path);
+      if (renamed) {
+        this._status.setConflict(path, false);
+        this._status.setConflict(renamed, true);
+      }
+    });
+  }
+
+  /**
+   * Flag (or unflag) a document as deleted on disk in its tab title
+   */
+  private _setDeleted(
+    context: DocumentRegistry.IContext<any>,
+    deleted: boolean
+  ): void {
+    if (deleted) {
+      this._deletedPaths.add(context.path);
+    } else {
+      this._deletedPaths.delete(context.path);
+    }
+
+    this._documents.widgets(context).forEach(widget => {
+      const classes = widget.title.className
+        .split(' ')
+        .filter(name => name && name !== DELETED_CLASS);
+      if (deleted) {
+        classes.push(DELETED_CLASS);
+      }
+      widget.title.className = classes.join(' ');
+    });
+  }
+
+  /**
+   * Offer to save a deleted document again or close it
+   */
+  private async _showDeletedDialog(
+    context: DocumentRegistry.IContext<any>
+  ): Promise<void> {
+    const fileName = PathExt.basename(context.path);
+    const result = await showDialog({
+      title: `${this._isNotebook(context) ? 'Notebook' : 'File'} Deleted`,
+      body: `${fileName} was deleted or moved by an external program (possibly Claude Code). Save it again to keep it, or close it.`,
+      buttons: [
+        Dialog.cancelButton({ label: 'Keep Open' }),
+        Dialog.warnButton({ label: 'Close' }),
+        Dialog.okButton({ label: 'Save' })
+      ]
+    });
+
+    if (result.button.label === 'Save') {
+      await this._resaveDocument(context);
+    } else if (result.button.label === 'Close') {
+      this._documents.widgets(context).forEach(widget => widget.close());
+    }
+  }
+
+  /**
+   * Write a deleted document back to its path
+   *
+   * `context.save()` refuses to save a file that no longer exists on disk,
+   * so the contents are written directly, then loaded back (in place, for
+   * notebooks) for the context to learn about the new file.
+   */
+  private async _resaveDocument(
+    context: DocumentRegistry.IContext<any>
+  ): Promise<void> {
+    try {
+      await this._contentsManager.save(
+        context.path,
+        this._isNotebook(context)
+          ? {
+              type: 'notebook',
+              format: 'json',
+              content: context.model.toJSON()
+            }
+          : {
+              type: 'file',
+              format: this._diskFormat(context),
+              content: context.model.toString()
+            }
+      );
+      if (this._isNotebook(context)) {
+        await this._patchFromDisk(context);
+      } else {
+        await this._preservingViewState(context, () => context.revert());
+      }
+      this._setDeleted(context, false);
+    } catch (error) {
+      showErrorMessage('Save Failed', error);
+    }
+  }
+
+  /**
+   * Handle file change events
+   */
+  private _onFileChanged(
+    sender: Contents.IManager,
+    change: Contents.IChangedArgs
+  ): void {
+    // Check if auto-refresh is enabled
+    if (!this._settings.enabled) {
+      this._logDebug('Auto-refresh disabled, ignoring file change event');
+      return;
+    }
+
+    this._logDebug('File change event detected', {
+      type: change.type,
+      oldValue: change.oldValue,
+      newValue: change.newValue,
+      timestamp: new Date().toISOString()
+    });
+
+    // Log ALL change types for debugging
+    if (change.newValue && change.newValue.path) {
+      this._logDebug('File path changed:', change.newValue.path);
+    }
+
+    // Process different types of events
+    if (change.type === 'save' && change.newValue) {
+      this._handleSaveEvent(change.newValue as Contents.IModel);
+    } else if (change.type === 'rename' && change.newValue) {
+      this._handleRenameEvent(
+        change.oldValue as Contents.IModel | null,
+        change.newValue as Contents.IModel
+      );
+    } else {
+      this._logDebug('Ignoring change type:', change.type);
+    }
+  }
+
+  /**
+   * Handle external changes with conflict resolution
+   */
+  private async _handleExternalChange(
+    context: DocumentRegistry.IContext<any>
+  ): Promise<void> {
+    // Check if auto-refresh is enabled
+    if (!this._settings.enabled) {
+      this._logDebug(
+        'Auto-refresh disabled, ignoring external change for:',
+        context.path
+      );
+      return;
+    }
+
+    const path = context.path;
+    const policy = this._policyFor(context);
+
+    if (!policy.enabled) {
+      this._logDebug('Auto-refresh disabled for path, ignoring:', path);
+      this._logEvent('skipped', path, 'Auto-refresh is disabled for this path');
+      return;
+    }
+
+    // A shared document has no unsaved changes of this client to protect:
+    // one client merges the change into the shared model for everyone
+    if (isCollaborative(context.model)) {
+      if (!isRefreshLeader(context.model)) {
+        this._logDebug('Another collaborator loads the change:', path);
+        this._logEvent(
+          'skipped',
+          path,
+          'Left to another collaborator to load into the shared document'
+        );
+        return;
+      }
+      this._scheduleRefresh(context);
+      return;
+    }
+
+    // Check if the document has unsaved changes
+    if (context.model.dirty) {
+      // Unresolved until the user (or the policy) picks a side
+      this._status.setConflict(path, true);
+
+      // Handle conflict based on the resolvers of other extensions, or
+      // else the policy for this path
+      const source = this._changeSources.get(path) ?? 'other';
+      const resolution =
+        (await this._resolveConflict(context, source)) ??
+        policy.conflictResolution;
+      this._conflict.emit({ path, source, resolution });
+      this._logEvent(
+        'conflict',
+        path,
+        'Changed on disk while it had unsaved changes',
+        { resolution }
+      );
+
+      switch (resolution) {
+        case 'ask':
+          await this._showConflictDialog(context);
+          break;
+        case 'merge':
+          if (this._isNotebook(context)) {
+            this._scheduleRefresh(context, 'merge');
+          } else {
+            // Only notebook cells can be merged; ask for other files
+            await this._showConflictDialog(context);
+          }
+          break;
+        case 'keepLocal':
+          this._logInfo('Keeping local changes, ignoring external change');
+          this._status.setConflict(path, false);
+          this._status.addEvent(path, 'Kept local changes');
+          if (policy.showNotifications) {
+            Notification.warning(
+              `${path
+                .split('/')
                 .pop()} was modified externally, but keeping your local changes.`,
-              buttons: [Dialog.okButton()]
-            });
+              {
+                autoClose: 10000,
+                actions: [
+                  {
+                    label: 'Show diff',
+                    callback: () => void this._showDiffReview(context)
+                  },
+                  {
+                    label: 'Use external',
+                    callback: () => this._scheduleRefresh(context)
+                  }
+                ]
+              }
+            );
           }
           break;
         case 'useExternal':
@@ -347,10 +1636,40 @@ Configure in Settings → Claude Code Auto-Refresh`;
           this._scheduleRefresh(context);
           break;
       }
-    } else {
-      // No local changes, safe to refresh
-      this._scheduleRefresh(context);
+    } else {
+      // No local changes, safe to refresh; optionally keep the user from
+      // typing into the document until the writes stop
+      if (this._settings.lockOnExternalChange) {
+        this._lockUntilQuiet(context);
+      }
+      this._scheduleRefresh(context);
+    }
+  }
+
+  /**
+   * Ask the registered conflict resolvers how to handle a conflict
+   *
+   * Resolves the first answer, or null when every resolver defers to the
+   * settings. A failing resolver is skipped.
+   */
+  private async _resolveConflict(
+    context: DocumentRegistry.IContext<any>,
+    source: ChangeSource
+  ): Promise<ConflictResolution | null> {
+    for (const resolver of [...this._conflictResolvers]) {
+      try {
+        const resolution = await resolver(
+          { path: context.path, source },
+          context
+        );
+        if (resolution) {
+          return resolution;
+        }
+      } catch (error) {
+        this._logInfo('Conflict resolver failed', error);
+      }
     }
+    return null;
   }
 
   /**
@@ -373,8 +1692,12 @@ Configure in Settings → Claude Code Auto-Refresh`;
     try {
       const fileName = path.split('/').pop();
       const result = await showDialog({
-        title: 'Notebook Modified Externally',
-        body: `${fileName} has been modified by an external program (possibly Claude Code). You have unsaved changes. What would you like to do?`,
+        title: `${
+          this._isNotebook(context) ? 'Notebook' : 'File'
+        } Modified Externally`,
+        body: `${fileName} has been modified by ${
+          SOURCE_LABELS[this._changeSources.get(path) ?? 'other']
+        }. You have unsaved changes. What would you like to do?`,
         buttons: [
           Dialog.createButton({
             label: 'Keep My Changes',
@@ -384,167 +1707,1174 @@ Configure in Settings → Claude Code Auto-Refresh`;
             label: 'Use External Changes',
             className: 'jp-mod-warn'
           }),
+          Dialog.createButton({ label: 'Review Changes' }),
           Dialog.createButton({ label: 'Cancel', className: 'jp-mod-reject' })
         ]
       });
 
-      if (result.button.label === 'Use External Changes') {
-        this._scheduleRefresh(context);
-      } else if (result.button.label === 'Keep My Changes') {
-        // Do nothing, keep local changes
-        this._logDebug('User chose to keep local changes');
+      this._logEvent('conflict', path, 'Decided in the conflict dialog', {
+        resolution: result.button.label
+      });
+
+      if (result.button.label === 'Use External Changes') {
+        this._scheduleRefresh(context);
+      } else if (result.button.label === 'Review Changes') {
+        await this._showDiffReview(context);
+      } else if (result.button.label === 'Keep My Changes') {
+        // Do nothing, keep local changes
+        this._logDebug('User chose to keep local changes');
+        this._status.setConflict(path, false);
+        this._status.addEvent(path, 'Kept local changes');
+      }
+    } finally {
+      // Always remove the dialog from active list when done
+      this._activeConflictDialogs.delete(path);
+    }
+  }
+
+  /**
+   * Start tracking the documents already open and those opened later
+   */
+  private _trackDocuments(): void {
+    this._documents.contexts.forEach(context =>
+      this._onDocumentOpened(this._documents, context)
+    );
+    this._documents.opened.connect(this._onDocumentOpened, this);
+    this._documents.closed.connect(this._onDocumentClosed, this);
+  }
+
+  /**
+   * Remember the version on disk of a newly opened document
+   */
+  private _onDocumentOpened(
+    sender: DocumentTracker,
+    context: DocumentContext
+  ): void {
+    this._workspace.seen(context.path);
+    context.ready
+      .then(() => {
+        if (!context.model.dirty) {
+          this._recordSeenContent(context);
+        }
+        const lastModified = context.contentsModel?.last_modified;
+        if (lastModified) {
+          this._lastSeenFiles.set(
+            context.path,
+            new Date(lastModified).getTime()
+          );
+        }
+      })
+      .catch(error =>
+        this._logDebug('Error initializing file tracking:', error)
+      );
+  }
+
+  /**
+   * Hand a closed document over to the workspace watcher and forget it
+   */
+  private _onDocumentClosed(
+    sender: DocumentTracker,
+    context: DocumentContext
+  ): void {
+    const path = context.path;
+    this._workspace.seen(
+      path,
+      this._lastSeenFiles.get(path),
+      this._lastSeenContent.get(path)
+    );
+
+    // The same file may still be open with another model
+    if (this._documents.contexts.some(other => other.path === path)) {
+      return;
+    }
+    this._lastSeenFiles.delete(path);
+    this._lastSeenContent.delete(path);
+    this._lastSeenHashes.delete(path);
+    this._changeSources.delete(path);
+    this._deletedPaths.delete(path);
+  }
+
+  /**
+   * Remember the given content (or the current model) as the last content
+   * JupyterLab saved or loaded
+   *
+   * Its hash tells our own writes from external ones, and for notebooks it
+   * is the base of the three-way merge when the file changes again.
+   */
+  private _recordSeenContent(
+    context: DocumentRegistry.IContext<any>,
+    content?: nbformat.INotebookContent | string
+  ): void {
+    const seen = content ?? this._modelContent(context);
+
+    this._lastSeenHashes.set(context.path, this._hashContent(seen));
+    if (typeof seen !== 'string') {
+      this._lastSeenContent.set(context.path, seen);
+    }
+  }
+
+  /**
+   * Handle save events
+   */
+  private _handleSaveEvent(fileModel: Contents.IModel): void {
+    const { path, type, last_modified } = fileModel;
+
+    this._logDebug('Save event for file:', { path, type });
+
+    if (!path || type === 'directory' || !this._isWatchedPath(path)) {
+      return;
+    }
+
+    // Check if the document is currently open
+    const openDocuments = this._getOpenDocuments();
+    const openDocument = openDocuments.find(doc => doc.context.path === path);
+
+    if (!openDocument) {
+      this._logDebug('Document not currently open:', path);
+      return;
+    }
+
+    this._logDebug('Processing save event:', path);
+
+    if (this._deletedPaths.has(path)) {
+      this._setDeleted(openDocument.context, false);
+    }
+
+    // Saving over the file settles any conflict in favour of the editor
+    this._status.setConflict(path, false);
+
+    // What was just saved is now the content on disk
+    this._recordSeenContent(openDocument.context);
+    if (last_modified) {
+      this._lastSeenFiles.set(path, new Date(last_modified).getTime());
+    }
+
+    // Don't auto-refresh for user-initiated saves detected via file events
+    // The content check will tell our own saves from external changes
+  }
+
+  /**
+   * Handle rename events
+   */
+  private _handleRenameEvent(
+    oldModel: Contents.IModel | null,
+    newModel: Contents.IModel
+  ): void {
+    this._logDebug('Rename event', {
+      oldPath: oldModel?.path,
+      newPath: newModel.path
+    });
+
+    // Open documents follow the rename themselves; keep our state with them
+    if (oldModel?.path && newModel.path) {
+      this._renamePathState(oldModel.path, newModel.path);
+    }
+  }
+
+  /**
+   * Schedule a refresh (or merge) for the given document context
+   */
+  private _scheduleRefresh(
+    context: DocumentRegistry.IContext<any>,
+    mode: 'refresh' | 'merge' = 'refresh'
+  ): void {
+    const path = context.path;
+
+    // Clear any existing timer for this file
+    const existingTimer = this._refreshTimers.get(path);
+    if (existingTimer) {
+      window.clearTimeout(existingTimer);
+    }
+
+    // A document locked until writes stop waits for the quiet period
+    const quiet = this._locks.reason(path) === 'quiet';
+    const delay =
+      quiet && this._settings.lockQuietPeriod > 0
+        ? this._settings.lockQuietPeriod
+        : this._policyFor(context).refreshDelay;
+
+    // Schedule the refresh with a delay to batch rapid changes
+    const timer = window.setTimeout(() => {
+      let update: Promise<void>;
+      if (!this._emitBeforeRefresh(context.path)) {
+        update = Promise.resolve();
+      } else if (mode === 'merge') {
+        update = this._mergeExternalChanges(context);
+      } else if (this._settings.reviewChanges) {
+        update = this._showDiffReview(context);
+      } else {
+        update = this._refreshDocument(context);
+      }
+      this._refreshTimers.delete(context.path);
+
+      // Stay locked until the changes are loaded
+      void update.finally(() => {
+        if (this._locks.reason(context.path) === 'quiet') {
+          this._locks.unlock(context.path);
+        }
+      });
+    }, delay);
+
+    this._refreshTimers.set(path, timer);
+  }
+
+  /**
+   * Load external changes into the shared model of a collaborative document
+   *
+   * The change is applied in a single undoable transaction, so every client
+   * receives it once. Notebook cells edited by collaborators since the last
+   * version seen on disk are merged by cell ID; cells changed on both sides
+   * take the external version unless the policy keeps local changes.
+   * Saves of collaborative documents are made by the server, which keeps
+   * the context up to date with the version on disk. Returns the notebook
+   * on disk.
+   */
+  private async _updateSharedModel(
+    context: DocumentRegistry.IContext<any>
+  ): Promise<nbformat.INotebookContent | undefined> {
+    const path = context.path;
+    const sharedModel = context.model.sharedModel;
+
+    if (!this._isNotebook(context)) {
+      const fileModel = await this._contentsManager.get(path, {
+        type: 'file',
+        format: this._diskFormat(context),
+        content: true
+      });
+      sharedModel.transact(() => sharedModel.setSource(fileModel.content));
+      return undefined;
+    }
+
+    const fileModel = await this._contentsManager.get(path, {
+      type: 'notebook',
+      content: true
+    });
+    const local = context.model.toJSON() as nbformat.INotebookContent;
+    let external = fileModel.content as nbformat.INotebookContent;
+    if (this._settings.preserveOutputs) {
+      external = keepLocalOutputs(local, external).notebook;
+    }
+
+    const base = this._lastSeenContent.get(path);
+    const result = base ? mergeNotebooks(base, local, external) : null;
+    let content = external;
+    if (result) {
+      const side: MergeChoice =
+        this._policyFor(context).conflictResolution === 'keepLocal'
+          ? 'local'
+          : 'external';
+      content = resolveMerge(
+        result,
+        new Map(result.conflicts.map(conflict => [conflict.id, side]))
+      );
+    }
+
+    if (!patchNotebook(context.model, content)) {
+      await this._preservingViewState(context, async () =>
+        sharedModel.transact(() => context.model.fromJSON(content))
+      );
+    }
+
+    this._logDebug('Updated shared model', {
+      path,
+      merged: result?.merged ?? 0
+    });
+    return fileModel.content as nbformat.INotebookContent;
+  }
+
+  /**
+   * Add an entry to the event log, attributed to the last change source
+   */
+  private _logEvent(
+    type: EventType,
+    path: string,
+    message: string,
+    details: Partial<IEventLogEntry> = {}
+  ): void {
+    this._eventLog.add({
+      type,
+      path,
+      message,
+      source: this._changeSources.get(path),
+      ...details
+    });
+  }
+
+  /**
+   * Let other extensions cancel an automatic refresh
+   *
+   * Returns whether the refresh should go ahead.
+   */
+  private _emitBeforeRefresh(path: string): boolean {
+    let cancelled = false;
+    this._beforeRefresh.emit({
+      path,
+      source: this._changeSources.get(path) ?? 'other',
+      get cancelled() {
+        return cancelled;
+      },
+      cancel: () => {
+        cancelled = true;
+      }
+    });
+
+    if (cancelled) {
+      this._logInfo('Refresh cancelled by another extension', path);
+      this._logEvent('skipped', path, 'Refresh cancelled by another extension');
+      this._status.addEvent(path, 'Refresh cancelled');
+    }
+    return !cancelled;
+  }
+
+  /**
+   * Refresh the document from disk
+   */
+  private async _refreshDocument(
+    context: DocumentRegistry.IContext<any>
+  ): Promise<void> {
+    const isNotebook = this._isNotebook(context);
+    const wasDirty = context.model.dirty;
+
+    try {
+      this._logInfo('Refreshing document', context.path);
+
+      // Write the unsaved changes about to be discarded to a backup file
+      const backup =
+        wasDirty && !isCollaborative(context.model)
+          ? await this._backupLocalChanges(context)
+          : null;
+
+      let patched = false;
+      let snapshot: ISnapshot | null = null;
+      let before: nbformat.INotebookContent | undefined;
+      let seen: nbformat.INotebookContent | undefined;
+      if (isNotebook) {
+        snapshot = this._takeSnapshot(context, 'Before external refresh');
+        before =
+          snapshot?.content ??
+          (context.model.toJSON() as nbformat.INotebookContent);
+      }
+
+      if (isCollaborative(context.model)) {
+        // Reverting would reload the document for every collaborator
+        seen = await this._updateSharedModel(context);
+        patched = true;
+      } else if (isNotebook) {
+        if (this._settings.preserveOutputs) {
+          seen = await this._refreshKeepingOutputs(context);
+          patched = true;
+        } else if (this._settings.refreshStrategy === 'patch') {
+          await this._patchFromDisk(context);
+          patched = true;
+        }
+      }
+
+      if (!patched) {
+        // Use the context's revert method to reload from disk
+        await this._preservingViewState(context, () => context.revert());
+      }
+      this._recordSeenContent(context, seen);
+      this._status.recordRefresh(context.path);
+      this._refreshed.emit({
+        path: context.path,
+        merged: false,
+        discardedLocalChanges: wasDirty,
+        backup: backup ?? undefined
+      });
+      this._logEvent(
+        'refresh',
+        context.path,
+        backup
+          ? `Reloaded from disk, unsaved changes backed up to ${backup}`
+          : wasDirty
+          ? 'Reloaded from disk, discarding unsaved changes'
+          : 'Reloaded from disk',
+        {
+          diff: before
+            ? summarizeDiff(
+                before,
+                context.model.toJSON() as nbformat.INotebookContent
+              )
+            : undefined
+        }
+      );
+      if (before) {
+        this._markChangedCells(context, before);
+      }
+
+      if (
+        this._policyFor(context).showNotifications &&
+        this._showNotifications
+      ) {
+        this._showRefreshNotification(context, snapshot, wasDirty, backup);
+      } else if (backup) {
+        // The way back to the discarded changes is always shown
+        this._showBackupNotification(context.path, backup);
+      }
+
+      this._logInfo('Successfully refreshed', context.path);
+    } catch (error) {
+      this._logInfo('Error refreshing document', error);
+      this._logEvent('error', context.path, `Could not refresh: ${error}`);
+
+      showErrorMessage(
+        isNotebook ? 'Error Refreshing Notebook' : 'Error Refreshing File',
+        `Could not refresh ${context.path.split('/').pop()}: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Write the unsaved local version of a document to a backup file, and
+   * delete its oldest backups beyond the number kept
+   *
+   * Resolves the backup path, or null when backups are disabled or the
+   * backup failed; the refresh goes ahead either way.
+   */
+  private async _backupLocalChanges(
+    context: DocumentRegistry.IContext<any>
+  ): Promise<string | null> {
+    const options = {
+      directory: this._settings.backupDirectory,
+      maxBackups: this._settings.maxBackups
+    };
+    if (options.maxBackups <= 0) {
+      return null;
+    }
+
+    const path = context.path;
+    let backup: string;
+    try {
+      backup = await writeBackup(
+        this._contentsManager,
+        path,
+        this._modelContent(context),
+        options
+      );
+    } catch (error) {
+      this._logInfo('Could not back up local changes', error);
+      Notification.warning(
+        `Could not back up the unsaved changes of ${path
+          .split('/')
+          .pop()} before discarding them: ${error}`,
+        { autoClose: false }
+      );
+      return null;
+    }
+    this._logInfo('Backed up local changes to', backup);
+
+    try {
+      const expired = await pruneBackups(this._contentsManager, path, options);
+      if (expired.length) {
+        this._logDebug('Deleted old backups:', expired);
+      }
+    } catch (error) {
+      this._logInfo('Could not delete old backups', error);
+    }
+    return backup;
+  }
+
+  /**
+   * Three-way merge the on-disk notebook into the unsaved local model
+   *
+   * Cells changed on one side only are merged automatically. Cells changed
+   * on both sides are shown for a decision.
+   */
+  private async _mergeExternalChanges(
+    context: DocumentRegistry.IContext<any>
+  ): Promise<void> {
+    const path = context.path;
+    const base = this._lastSeenContent.get(path);
+
+    if (!context.model.dirty) {
+      await this._refreshDocument(context);
+      return;
+    }
+
+    if (this._activeConflictDialogs.has(path)) {
+      this._logDebug('Conflict dialog already active for:', path);
+      return;
+    }
+
+    try {
+      const fileModel = await this._contentsManager.get(path, {
+        type: 'notebook',
+        content: true
+      });
+      const external = fileModel.content as nbformat.INotebookContent;
+      const local = context.model.toJSON() as nbformat.INotebookContent;
+      const result = base ? mergeNotebooks(base, local, external) : null;
+
+      if (!result) {
+        this._logInfo('Cannot merge without a base or cell IDs, asking', path);
+        await this._showConflictDialog(context);
+        return;
+      }
+
+      this._logInfo('Merged external changes', {
+        path,
+        merged: result.merged,
+        conflicts: result.conflicts.length
+      });
+
+      const choices = new Map<string, MergeChoice>();
+
+      if (result.conflicts.length) {
+        this._activeConflictDialogs.set(path, true);
+        try {
+          const dialog = await showDialog({
+            title: `Merge Conflicts: ${path.split('/').pop()}`,
+            body: new CellDiffWidget(
+              result.conflicts.map(conflict =>
+                diffCells(conflict.local, conflict.external)
+              ),
+              {
+                localLabel: 'My changes',
+                externalLabel: 'External changes',
+                defaultAccepted: false
+              }
+            ),
+            buttons: [
+              Dialog.cancelButton({ label: 'Keep All Mine' }),
+              Dialog.okButton({ label: 'Merge' })
+            ]
+          });
+
+          // Checked cells take the external side, anything else stays local
+          const accepted: boolean[] =
+            dialog.button.accept && dialog.value ? dialog.value : [];
+          result.conflicts.forEach((conflict, index) => {
+            choices.set(conflict.id, accepted[index] ? 'external' : 'local');
+          });
+        } finally {
+          this._activeConflictDialogs.delete(path);
+        }
+      }
+
+      this._takeSnapshot(context, 'Before merge');
+      const merged = resolveMerge(result, choices);
+      await this._applyNotebookContent(context, merged);
+      this._markChangedCells(context, local);
+      this._recordSeenContent(context, external);
+      this._status.recordRefresh(path, 'Merged external changes');
+      this._refreshed.emit({
+        path,
+        merged: true,
+        discardedLocalChanges: false
+      });
+      this._logEvent('refresh', path, 'Merged with unsaved changes', {
+        resolution: result.conflicts.length
+          ? `${result.conflicts.length} conflicting cells decided in the merge dialog`
+          : undefined,
+        diff: summarizeDiff(local, merged)
+      });
+    } catch (error) {
+      this._logInfo('Error merging external changes', error);
+      this._logEvent('error', path, `Could not merge: ${error}`);
+
+      showErrorMessage(
+        'Error Merging Notebook',
+        `Could not merge changes to ${path.split('/').pop()}: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Load the local and on-disk versions of a document as notebook content
+   *
+   * Other files are wrapped as single-cell notebooks so they can be
+   * reviewed with the same cell diff.
+   */
+  private async _loadVersions(
+    context: DocumentRegistry.IContext<any>
+  ): Promise<{
+    local: nbformat.INotebookContent;
+    external: nbformat.INotebookContent;
+  }> {
+    const external = await this._fetchDiskContent(context);
+    if (typeof external !== 'string') {
+      return {
+        local: context.model.toJSON() as nbformat.INotebookContent,
+        external
+      };
+    }
+
+    const wrap = (source: string): nbformat.INotebookContent => ({
+      cells: [{ cell_type: 'raw', source, metadata: {} }],
+      metadata: {},
+      nbformat: 4,
+      nbformat_minor: 5
+    });
+    return {
+      local: wrap(context.model.toString()),
+      external: wrap(external)
+    };
+  }
+
+  /**
+   * Show a cell-level diff of the on-disk notebook and apply accepted cells
+   */
+  private async _showDiffReview(
+    context: DocumentRegistry.IContext<any>
+  ): Promise<void> {
+    const path = context.path;
+
+    // A review already open for this file picks up the change once closed
+    if (this._activeReviews.has(path)) {
+      this._logDebug('Diff review already active for:', path);
+      this._pendingReviews.add(path);
+      return;
+    }
+
+    this._activeReviews.add(path);
+
+    try {
+      const { local, external } = await this._loadVersions(context);
+      const diffs = diffNotebooks(local, external);
+
+      if (diffs.every(diff => diff.type === 'unchanged')) {
+        this._logDebug('No changes to review for:', path);
+        this._status.setConflict(path, false);
+        return;
+      }
+
+      const result = await showDialog({
+        title: `Review External Changes: ${path.split('/').pop()}`,
+        body: new CellDiffWidget(diffs, {
+          localLabel: context.model.dirty ? 'Current (unsaved)' : 'Current',
+          externalLabel: 'On disk'
+        }),
+        buttons: [
+          Dialog.cancelButton({ label: 'Reject All' }),
+          Dialog.okButton({ label: 'Apply Selected' })
+        ]
+      });
+
+      if (!result.button.accept || !result.value) {
+        this._logInfo('External changes rejected for:', path);
+        this._status.setConflict(path, false);
+        this._status.addEvent(path, 'Rejected external changes');
+        return;
+      }
+
+      const accepted = result.value as boolean[];
+      const changed = diffs
+        .map((diff, index) => ({ diff, index }))
+        .filter(({ diff }) => diff.type !== 'unchanged');
+
+      if (changed.every(({ index }) => accepted[index])) {
+        // Everything accepted, so the notebook simply matches the disk
+        await this._refreshDocument(context);
+      } else {
+        // The unsaved cells replaced by accepted ones are backed up too
+        const backup =
+          context.model.dirty && !isCollaborative(context.model)
+            ? await this._backupLocalChanges(context)
+            : null;
+        this._takeSnapshot(context, 'Before reviewed changes');
+        await this._applyNotebookContent(
+          context,
+          composeNotebook(external, diffs, accepted)
+        );
+        this._markChangedCells(context, local);
+        this._recordSeenContent(context, external);
+        this._status.recordRefresh(
+          path,
+          backup
+            ? `Applied selected external changes, unsaved changes backed up to ${backup}`
+            : 'Applied selected external changes'
+        );
+        this._logInfo('Applied selected external changes to:', path);
+        if (backup) {
+          this._showBackupNotification(path, backup);
+        }
       }
+    } catch (error) {
+      this._logInfo('Error reviewing external changes', error);
+
+      showErrorMessage(
+        'Error Reviewing Changes',
+        `Could not review changes to ${path.split('/').pop()}: ${error}`
+      );
     } finally {
-      // Always remove the dialog from active list when done
-      this._activeConflictDialogs.delete(path);
+      this._activeReviews.delete(path);
+
+      if (this._pendingReviews.delete(path)) {
+        this._scheduleRefresh(context);
+      }
     }
   }
 
   /**
-   * Setup tracking of user-initiated saves
+   * Save the current notebook content in the snapshot history
    */
-  private _setupSaveTracking(): void {
-    // Initialize file tracking for existing notebooks
-    const notebooks = this._getOpenNotebooks();
-    notebooks.forEach(({ context }) => {
-      this._contentsManager
-        .get(context.path, { content: false })
-        .then(fileModel => {
-          this._lastSeenFiles.set(
-            context.path,
-            new Date(fileModel.last_modified).getTime()
-          );
-        })
-        .catch(error =>
-          this._logDebug('Error initializing file tracking:', error)
-        );
-    });
+  private _takeSnapshot(
+    context: DocumentRegistry.IContext<any>,
+    label: string
+  ): ISnapshot | null {
+    return this._history.add(
+      context.path,
+      label,
+      context.model.toJSON() as nbformat.INotebookContent
+    );
   }
 
   /**
-   * Track user-initiated saves
+   * Show a read-only preview of a snapshot
    */
-  private _trackUserSave(path: string): void {
-    this._lastUserSaves.set(path, Date.now());
+  public async previewSnapshot(snapshot: ISnapshot): Promise<void> {
+    await showDialog({
+      title: `${snapshot.path.split('/').pop()} · ${new Date(
+        snapshot.timestamp
+      ).toLocaleString()}`,
+      body: new SnapshotPreview(snapshot.content),
+      buttons: [Dialog.okButton({ label: 'Close' })]
+    });
   }
 
   /**
-   * Handle save events
+   * Show a diff between a snapshot and the current notebook
    */
-  private _handleSaveEvent(fileModel: Contents.IModel): void {
-    const { path, type } = fileModel;
+  public async diffSnapshot(snapshot: ISnapshot): Promise<void> {
+    const openNotebook = this._getOpenNotebooks().find(
+      nb => nb.context.path === snapshot.path
+    );
+    if (!openNotebook) {
+      showErrorMessage(
+        'Notebook Not Open',
+        `Open ${snapshot.path} to compare it with this snapshot.`
+      );
+      return;
+    }
 
-    this._logDebug('Save event for file:', { path, type });
+    const current = openNotebook.context.model.toJSON();
+    await showDialog({
+      title: `Snapshot vs Current: ${snapshot.path.split('/').pop()}`,
+      body: new CellDiffWidget(
+        diffNotebooks(snapshot.content, current as nbformat.INotebookContent),
+        {
+          localLabel: `Snapshot (${snapshot.label})`,
+          externalLabel: 'Current',
+          selectable: false
+        }
+      ),
+      buttons: [Dialog.okButton({ label: 'Close' })]
+    });
+  }
 
-    if (!path || type !== 'notebook' || !path.endsWith('.ipynb')) {
+  /**
+   * Restore a snapshot as the live notebook content
+   *
+   * The current content is snapshotted first so the restore can be undone.
+   */
+  public async restoreSnapshot(snapshot: ISnapshot): Promise<void> {
+    const openNotebook = this._getOpenNotebooks().find(
+      nb => nb.context.path === snapshot.path
+    );
+    if (!openNotebook) {
+      showErrorMessage(
+        'Notebook Not Open',
+        `Open ${snapshot.path} to restore this snapshot.`
+      );
       return;
     }
 
-    // Track this as a potential user save
-    this._trackUserSave(path);
+    const result = await showDialog({
+      title: 'Restore Snapshot',
+      body: `Replace the content of ${snapshot.path
+        .split('/')
+        .pop()} with the snapshot from ${new Date(
+        snapshot.timestamp
+      ).toLocaleString()}? The notebook will have unsaved changes until you save it.`,
+      buttons: [Dialog.cancelButton(), Dialog.warnButton({ label: 'Restore' })]
+    });
+    if (!result.button.accept) {
+      return;
+    }
 
-    // Check if the notebook is currently open
-    const openNotebooks = this._getOpenNotebooks();
-    const openNotebook = openNotebooks.find(nb => nb.context.path === path);
+    await this._restoreSnapshot(openNotebook.context, snapshot);
+  }
 
-    if (!openNotebook) {
-      this._logDebug('Notebook not currently open:', path);
-      return;
+  /**
+   * Replace the notebook content with a snapshot, without asking
+   */
+  private async _restoreSnapshot(
+    context: DocumentRegistry.IContext<any>,
+    snapshot: ISnapshot
+  ): Promise<void> {
+    this._takeSnapshot(context, 'Before restore');
+    await this._applyNotebookContent(context, snapshot.content);
+    this._logInfo('Restored snapshot', {
+      path: snapshot.path,
+      timestamp: new Date(snapshot.timestamp)
+    });
+  }
+
+  /**
+   * Reload the notebook from disk, updating its cells in place
+   *
+   * The context is reverted, the only way for it to learn about the version
+   * on disk before the next save, but for the duration of the revert the
+   * model loads the file by patching the cells that changed instead of
+   * replacing them all. `prepare` may change the content before it is
+   * patched in. Every cell is replaced when the cells have no IDs. Resolves
+   * the content on disk.
+   */
+  private async _patchFromDisk(
+    context: DocumentRegistry.IContext<any>,
+    prepare: (
+      content: nbformat.INotebookContent
+    ) => nbformat.INotebookContent = content => content
+  ): Promise<nbformat.INotebookContent | undefined> {
+    const model = context.model;
+    const fromJSON = model.fromJSON;
+    let external: nbformat.INotebookContent | undefined;
+
+    model.fromJSON = (content: nbformat.INotebookContent) => {
+      external = content;
+      const prepared = prepare(content);
+      const stats = patchNotebook(model, prepared);
+      if (stats) {
+        this._logDebug('Patched notebook in place', {
+          path: context.path,
+          stats
+        });
+      } else {
+        this._logDebug('Notebook has cells without IDs, replacing them all');
+        fromJSON.call(model, prepared);
+      }
+      model.dirty = false;
+    };
+    try {
+      await this._preservingViewState(context, () => context.revert());
+    } finally {
+      delete model.fromJSON;
     }
+    return external;
+  }
 
-    this._logDebug('Processing notebook save event:', path);
+  /**
+   * Load the notebook from disk, keeping local outputs it comes without
+   *
+   * The file and the kept outputs are patched into the model in a single
+   * update. The model then holds outputs the file doesn't have, but it is
+   * not marked dirty: nothing the user wrote is unsaved, and the next save
+   * simply writes the outputs back. Returns the content on disk.
+   */
+  private async _refreshKeepingOutputs(
+    context: DocumentRegistry.IContext<any>
+  ): Promise<nbformat.INotebookContent | undefined> {
+    const local = context.model.toJSON() as nbformat.INotebookContent;
+    let kept = 0;
+    let stale: number[] = [];
+    const external = await this._patchFromDisk(context, content => {
+      const result = keepLocalOutputs(local, content);
+      kept = result.kept;
+      stale = result.stale;
+      return result.notebook;
+    });
 
-    // Don't auto-refresh for user-initiated saves detected via file events
-    // The polling mechanism will handle external changes more accurately
+    this._markStaleOutputs(context, stale);
+    this._logDebug('Kept local outputs', {
+      path: context.path,
+      kept,
+      stale: stale.length
+    });
+
+    return external;
   }
 
   /**
-   * Handle rename events
+   * Dim the outputs of the cells at the given indices as stale
    */
-  private _handleRenameEvent(
-    oldModel: Contents.IModel | null,
-    newModel: Contents.IModel
+  private _markStaleOutputs(
+    context: DocumentRegistry.IContext<any>,
+    indices: number[]
   ): void {
-    this._logDebug('Rename event', {
-      oldPath: oldModel?.path,
-      newPath: newModel.path
+    this._documents.widgets(context).forEach(widget => {
+      if (!(widget instanceof NotebookPanel)) {
+        return;
+      }
+      indices.forEach(index => {
+        const cell = widget.content.widgets[index];
+        if (cell instanceof CodeCell) {
+          cell.outputArea.addClass(STALE_OUTPUTS_CLASS);
+          cell.outputArea.node.title =
+            'These outputs were produced by an earlier version of the code';
+        }
+      });
     });
-    // Handle notebook renames if needed in the future
   }
 
   /**
-   * Schedule a refresh for the given notebook context
+   * Mark the code cells an update added or changed as needing a re-run
    */
-  private _scheduleRefresh(context: DocumentRegistry.IContext<any>): void {
-    const path = context.path;
-
-    // Clear any existing timer for this file
-    const existingTimer = this._refreshTimers.get(path);
-    if (existingTimer) {
-      window.clearTimeout(existingTimer);
+  private _markChangedCells(
+    context: DocumentRegistry.IContext<any>,
+    before: nbformat.INotebookContent
+  ): void {
+    const indices = changedCellIndices(
+      before,
+      context.model.toJSON() as nbformat.INotebookContent
+    );
+    if (!indices.length) {
+      return;
     }
 
-    // Schedule the refresh with a delay to batch rapid changes
-    const timer = window.setTimeout(() => {
-      this._refreshNotebook(context);
-      this._refreshTimers.delete(path);
-    }, this._settings.refreshDelay);
+    this._documents.widgets(context).forEach(widget => {
+      if (widget instanceof NotebookPanel) {
+        this._staleCells.mark(widget.content, indices);
+      }
+    });
+  }
 
-    this._refreshTimers.set(path, timer);
+  /**
+   * Clear the stale markers of a cell once it has been run
+   */
+  private _onCellExecuted(
+    sender: unknown,
+    args: { notebook: Notebook; cell: Cell }
+  ): void {
+    const { notebook, cell } = args;
+    this._staleCells.clear(notebook, cell);
+
+    if (
+      cell instanceof CodeCell &&
+      cell.outputArea.hasClass(STALE_OUTPUTS_CLASS)
+    ) {
+      cell.outputArea.removeClass(STALE_OUTPUTS_CLASS);
+      cell.outputArea.node.removeAttribute('title');
+    }
   }
 
   /**
-   * Refresh the notebook from disk
+   * Replace the notebook content with merged or reviewed content
+   *
+   * The model is patched in place when the patch strategy is selected.
    */
-  private async _refreshNotebook(
-    context: DocumentRegistry.IContext<any>
+  private async _applyNotebookContent(
+    context: DocumentRegistry.IContext<any>,
+    content: nbformat.INotebookContent
   ): Promise<void> {
-    try {
-      this._logInfo('Refreshing notebook', context.path);
+    if (
+      this._settings.refreshStrategy === 'patch' &&
+      patchNotebook(context.model, content)
+    ) {
+      return;
+    }
+    await this._preservingViewState(context, () =>
+      context.model.fromJSON(content)
+    );
+  }
 
-      // Use the context's revert method to reload from disk
-      await context.revert();
+  /**
+   * Run a model update while keeping each view's place in the notebook
+   *
+   * The active cell (matched by cell ID), scroll offset and editor
+   * selections are recorded first and restored once the update is done.
+   */
+  private async _preservingViewState(
+    context: DocumentRegistry.IContext<any>,
+    update: () => void | Promise<void>
+  ): Promise<void> {
+    const widgets: any[] = this._documents.widgets(context);
+    const panels = widgets.filter((widget): widget is NotebookPanel => {
+      return widget instanceof NotebookPanel;
+    });
+    const editors = widgets
+      .map(widget => widget.content?.editor)
+      .filter(editor => !!editor);
+    const states = panels.map(panel => captureViewState(panel));
+    const editorStates = editors.map(editor => captureEditorState(editor));
 
-      if (this._settings.showNotifications && this._showNotifications) {
-        await this._showRefreshNotification(context.path);
-      }
+    await update();
 
-      this._logInfo('Successfully refreshed', context.path);
-    } catch (error) {
-      this._logInfo('Error refreshing notebook', error);
+    editors.forEach((editor, index) =>
+      restoreEditorState(editor, editorStates[index])
+    );
+    await Promise.all(
+      panels.map((panel, index) =>
+        restoreViewState(panel, states[index]).catch(error =>
+          this._logDebug('Could not restore view state:', error)
+        )
+      )
+    );
+  }
 
-      showErrorMessage(
-        'Error Refreshing Notebook',
-        `Could not refresh ${context.path.split('/').pop()}: ${error}`
-      );
-    }
+  /**
+   * Toast action opening a backup of unsaved changes
+   */
+  private _openBackupAction(backup: string): Notification.IAction {
+    return {
+      label: 'Open backup',
+      caption: `Open the copy of your unsaved changes: ${backup}`,
+      callback: () =>
+        void this._app.commands.execute('docmanager:open', { path: backup })
+    };
+  }
+
+  /**
+   * Show where the unsaved changes of a file were backed up
+   *
+   * Shown even when refresh toasts are off, as the backup is the only way
+   * back to the discarded changes.
+   */
+  private _showBackupNotification(path: string, backup: string): void {
+    Notification.info(
+      `Unsaved changes to ${path.split('/').pop()} were backed up to ${backup}`,
+      {
+        autoClose: REFRESH_TOAST_TIMEOUT,
+        actions: [this._openBackupAction(backup)]
+      }
+    );
   }
 
   /**
-   * Show refresh notification with deduplication
+   * Show a refresh toast, grouping repeated refreshes of the same file
    */
-  private async _showRefreshNotification(path: string): Promise<void> {
+  private _showRefreshNotification(
+    context: DocumentRegistry.IContext<any>,
+    snapshot: ISnapshot | null,
+    wasDirty: boolean,
+    backup: string | null = null
+  ): void {
+    const path = context.path;
     const fileName = path.split('/').pop();
 
-    // Check if there's already an active notification for this file
-    if (this._activeNotifications.has(path)) {
-      this._logDebug('Refresh notification already active for:', path);
-      return;
-    }
+    // Keep updating the same toast while the file keeps being refreshed,
+    // acting on the content from before the first of those refreshes
+    const previous = this._activeNotifications.get(path);
+    const grouped =
+      previous &&
+      Notification.manager.has(previous.id) &&
+      Date.now() - previous.updated < REFRESH_TOAST_TIMEOUT
+        ? previous
+        : null;
+    const toast: IRefreshToast = grouped
+      ? {
+          ...grouped,
+          count: grouped.count + 1,
+          updated: Date.now(),
+          backup: grouped.backup ?? backup
+        }
+      : {
+          id: '',
+          count: 1,
+          updated: Date.now(),
+          snapshot,
+          hadLocalChanges: wasDirty,
+          backup
+        };
 
-    // Mark notification as active
-    this._activeNotifications.set(path, true);
+    const message =
+      toast.count > 1
+        ? `${fileName} has been refreshed from disk (${toast.count} times)`
+        : `${fileName} has been refreshed from disk`;
+
+    const actions: Notification.IAction[] = [];
+    const first = toast.snapshot;
+    if (first) {
+      actions.push(
+        {
+          label: 'Show diff',
+          callback: () => void this.diffSnapshot(first)
+        },
+        {
+          label: toast.hadLocalChanges ? 'Keep mine' : 'Undo refresh',
+          caption: `Restore ${fileName} as it was before the refresh`,
+          callback: () => void this._restoreSnapshot(context, first)
+        }
+      );
+    }
+    if (toast.backup) {
+      actions.push(this._openBackupAction(toast.backup));
+    }
 
-    try {
-      await showDialog({
-        title: 'Notebook Refreshed',
-        body: `${fileName} has been refreshed from disk`,
-        buttons: [Dialog.okButton()]
+    if (grouped) {
+      Notification.update({
+        id: toast.id,
+        message,
+        type: 'info',
+        autoClose: REFRESH_TOAST_TIMEOUT,
+        actions
+      });
+    } else {
+      toast.id = Notification.info(message, {
+        autoClose: REFRESH_TOAST_TIMEOUT,
+        actions
       });
-    } finally {
-      // Always remove the notification from active list when done
-      this._activeNotifications.delete(path);
     }
+    this._activeNotifications.set(path, toast);
+  }
+
+  /**
+   * Whether a path matches the include patterns and none of the excludes
+   */
+  private _isWatchedPath(path: string): boolean {
+    return (
+      matchAnyGlob(path, this._settings.includePatterns) &&
+      !matchAnyGlob(path, this._settings.excludePatterns)
+    );
+  }
+
+  /**
+   * Resolve the refresh policy for a document
+   *
+   * Settings rules matching the path (and the source of its last external
+   * change) override the global settings, and the `claude_code_refresh`
+   * notebook metadata overrides both.
+   */
+  private _policyFor(context: DocumentRegistry.IContext<any>): IRefreshPolicy {
+    const { enabled, conflictResolution, refreshDelay, showNotifications } =
+      this._settings;
+    const metadata = this._isNotebook(context)
+      ? context.model.getMetadata?.(METADATA_KEY)
+      : undefined;
+
+    return resolvePolicy(
+      { enabled, conflictResolution, refreshDelay, showNotifications },
+      this._settings.rules,
+      context.path,
+      metadata,
+      this._changeSources.get(context.path)
+    );
+  }
+
+  /**
+   * Whether a document context holds a notebook
+   *
+   * A notebook open as JSON in a text editor is a text document.
+   */
+  private _isNotebook(context: DocumentRegistry.IContext<any>): boolean {
+    return (
+      context.model instanceof NotebookModel ||
+      this._documents
+        .widgets(context)
+        .some(widget => widget instanceof NotebookPanel)
+    );
+  }
+
+  /**
+   * Find the open notebook panel with the given path
+   */
+  private _findNotebookPanel(path: string): NotebookPanel | undefined {
+    const document = this._findOpenDocument(path);
+    return document
+      ? this._documents
+          .widgets(document.context)
+          .find(
+            (widget): widget is NotebookPanel => widget instanceof NotebookPanel
+          )
+      : undefined;
+  }
+
+  /**
+   * Find the open (watched) document with the given path
+   */
+  private _findOpenDocument(
+    path: string
+  ): { context: DocumentRegistry.IContext<any>; widget: any } | undefined {
+    return this._getOpenDocuments().find(doc => doc.context.path === path);
   }
 
   /**
@@ -554,58 +2884,26 @@ Configure in Settings → Claude Code Auto-Refresh`;
     context: DocumentRegistry.IContext<any>;
     widget: any;
   }> {
-    const notebooks: Array<{
-      context: DocumentRegistry.IContext<any>;
-      widget: any;
-    }> = [];
-
-    try {
-      // Iterate through all open documents using the shell
-      const shell = this._app.shell;
-      const widgets = Array.from(shell.widgets('main'));
-
-      this._logDebug('Total widgets in main area:', widgets.length);
-
-      widgets.forEach((widget: any, index: number) => {
-        this._logDebug(`Widget ${index}:`, {
-          id: widget.id,
-          title: widget.title?.label,
-          hasContext: !!widget.context,
-          contextPath: widget.context?.path,
-          modelType: widget.context?.model?.type,
-          widgetClassName: widget.constructor?.name
-        });
-
-        // Try multiple ways to detect if this is a notebook
-        const isNotebook =
-          // Original check
-          (widget.context &&
-            widget.context.model &&
-            widget.context.model.type === 'notebook') ||
-          // Check by file extension
-          (widget.context &&
-            widget.context.path &&
-            widget.context.path.endsWith('.ipynb')) ||
-          // Check by widget class name
-          (widget.constructor &&
-            widget.constructor.name &&
-            widget.constructor.name.includes('Notebook'));
-
-        if (isNotebook) {
-          notebooks.push({
-            context: widget.context,
-            widget: widget
-          });
-          this._logDebug('Found notebook widget:', widget.context.path);
-        }
-      });
-
-      this._logDebug('Total notebook widgets found:', notebooks.length);
-    } catch (error) {
-      this._logInfo('Error getting open notebooks:', error);
-    }
+    return this._getOpenDocuments().filter(doc =>
+      this._isNotebook(doc.context)
+    );
+  }
 
-    return notebooks;
+  /**
+   * Get all currently open documents with a watched path
+   *
+   * Every document is listed once, with the first of its open views.
+   */
+  private _getOpenDocuments(): Array<{
+    context: DocumentRegistry.IContext<any>;
+    widget: any;
+  }> {
+    return this._documents.contexts
+      .filter(context => context.model && this._isWatchedPath(context.path))
+      .map(context => ({
+        context,
+        widget: this._documents.widgets(context)[0]
+      }));
   }
 
   /**
@@ -615,16 +2913,33 @@ Configure in Settings → Claude Code Auto-Refresh`;
     // Clear all pending timers
     this._refreshTimers.forEach(timer => window.clearTimeout(timer));
     this._refreshTimers.clear();
+    this._announcedEditTimers.forEach(timer => window.clearTimeout(timer));
+    this._announcedEditTimers.clear();
+    this._locks.dispose();
+
+    NotebookActions.executed.disconnect(this._onCellExecuted, this);
 
-    // Clear debug timer
-    if (this._debugTimer) {
-      window.clearInterval(this._debugTimer);
-      this._debugTimer = null;
+    // Stop polling
+    this._scheduler.dispose();
+    this._workspace.dispose();
+    this._eventLog.dispose();
+
+    // Close the server watcher connection
+    if (this._serverWatcher) {
+      this._serverWatcher.dispose();
+      this._serverWatcher = null;
     }
 
     // Clear active dialogs and notifications
     this._activeConflictDialogs.clear();
     this._activeNotifications.clear();
+    this._activeReviews.clear();
+    this._pendingReviews.clear();
+    this._lastSeenContent.clear();
+    this._lastSeenHashes.clear();
+    this._changeSources.clear();
+    this._deletedPaths.clear();
+    this._pausedPaths.clear();
 
     // Disconnect file change signal
     Signal.disconnectAll(this);
@@ -633,26 +2948,277 @@ Configure in Settings → Claude Code Auto-Refresh`;
   }
 }
 
+/**
+ * Read the plugin settings from the settings registry
+ */
+function readSettings(settings: ISettingRegistry.ISettings): ISettings {
+  return {
+    enabled: settings.get('enabled').composite as boolean,
+    refreshDelay: settings.get('refreshDelay').composite as number,
+    refreshStrategy: settings.get('refreshStrategy')
+      .composite as RefreshStrategy,
+    showNotifications: settings.get('showNotifications').composite as boolean,
+    logLevel: settings.get('logLevel').composite as LogLevel,
+    conflictResolution: settings.get('conflictResolution')
+      .composite as ConflictResolution,
+    showWelcomeBanner: settings.get('showWelcomeBanner').composite as boolean,
+    reviewChanges: settings.get('reviewChanges').composite as boolean,
+    maxSnapshots: settings.get('maxSnapshots').composite as number,
+    backupDirectory: settings.get('backupDirectory').composite as string,
+    maxBackups: settings.get('maxBackups').composite as number,
+    preserveOutputs: settings.get('preserveOutputs').composite as boolean,
+    lockOnExternalChange: settings.get('lockOnExternalChange')
+      .composite as boolean,
+    lockQuietPeriod: settings.get('lockQuietPeriod').composite as number,
+    includePatterns: settings.get('includePatterns').composite as string[],
+    excludePatterns: settings.get('excludePatterns').composite as string[],
+    watchDirectories: settings.get('watchDirectories').composite as string[],
+    rules: settings.get('rules').composite as unknown as IPolicyRule[]
+  };
+}
+
+/**
+ * The command IDs used by the extension
+ */
+namespace CommandIDs {
+  export const togglePause = 'claude-code-refresh:toggle-pause';
+
+  export const togglePauseDocument =
+    'claude-code-refresh:toggle-pause-document';
+
+  export const checkNow = 'claude-code-refresh:check-now';
+
+  export const refresh = 'claude-code-refresh:refresh';
+
+  export const revert = 'claude-code-refresh:revert';
+
+  export const resolveConflict = 'claude-code-refresh:resolve-conflict';
+
+  export const runChanged = 'claude-code-refresh:run-changed';
+
+  export const runChangedBelow = 'claude-code-refresh:run-changed-below';
+
+  export const showLog = 'claude-code-refresh:show-log';
+
+  export const showChangedFiles = 'claude-code-refresh:show-changed-files';
+}
+
+/**
+ * Register the extension commands and add them to the command palette
+ *
+ * Toolbar, menu and keyboard shortcut entries are declared in the settings
+ * schema so users can change them.
+ */
+function addCommands(
+  app: JupyterFrontEnd,
+  autoRefresh: ClaudeCodeAutoRefresh,
+  palette: ICommandPalette | null
+): void {
+  const { commands, shell } = app;
+
+  // The path of the document in the current main area widget, if any
+  const currentPath = (): string | null =>
+    (shell.currentWidget as any)?.context?.path ?? null;
+
+  commands.addCommand(CommandIDs.togglePause, {
+    label: () =>
+      autoRefresh.paused ? 'Resume Auto-Refresh' : 'Pause Auto-Refresh',
+    caption: 'Pause or resume watching all open documents',
+    icon: args => (args.toolbar ? pauseIcon : undefined),
+    isToggled: () => autoRefresh.paused,
+    execute: () => {
+      autoRefresh.paused = !autoRefresh.paused;
+    }
+  });
+
+  commands.addCommand(CommandIDs.togglePauseDocument, {
+    label: args => (args.toolbar ? '' : 'Pause Auto-Refresh for This Document'),
+    caption: 'Pause or resume watching the current document',
+    icon: pauseIcon,
+    isEnabled: () => !!currentPath(),
+    isToggled: () => {
+      const path = currentPath();
+      return !!path && autoRefresh.isPathPaused(path);
+    },
+    execute: () => {
+      const path = currentPath();
+      if (path) {
+        autoRefresh.setPathPaused(path, !autoRefresh.isPathPaused(path));
+      }
+    }
+  });
+
+  commands.addCommand(CommandIDs.checkNow, {
+    label: 'Check for External Changes Now',
+    caption: 'Check every open document for changes on disk',
+    icon: args => (args.toolbar ? runIcon : undefined),
+    execute: () => autoRefresh.checkNow()
+  });
+
+  commands.addCommand(CommandIDs.refresh, {
+    label: args => (args.toolbar ? '' : 'Refresh Document from Disk'),
+    caption: 'Reload the current document from disk, keeping your place',
+    icon: refreshIcon,
+    isEnabled: () => !!currentPath(),
+    execute: () => {
+      const path = currentPath();
+      if (path) {
+        return autoRefresh.refreshNow(path);
+      }
+    }
+  });
+
+  commands.addCommand(CommandIDs.revert, {
+    label: args => (args.toolbar ? '' : 'Undo Last Refresh'),
+    caption: 'Restore the current notebook as it was before the last refresh',
+    icon: undoIcon,
+    isEnabled: () => {
+      const path = currentPath();
+      return !!path && autoRefresh.canRevert(path);
+    },
+    execute: () => {
+      const path = currentPath();
+      if (path) {
+        return autoRefresh.revertLastRefresh(path);
+      }
+    }
+  });
+
+  commands.addCommand(CommandIDs.resolveConflict, {
+    label: 'Resolve External Changes…',
+    caption: 'Compare the current document with the file on disk',
+    isEnabled: () => !!currentPath(),
+    execute: () => {
+      const path = currentPath();
+      if (path) {
+        return autoRefresh.resolveConflict(path);
+      }
+    }
+  });
+
+  commands.addCommand(CommandIDs.runChanged, {
+    label: 'Run Cells Changed on Disk',
+    caption: 'Run only the cells changed by the last external edit',
+    isEnabled: () => {
+      const path = currentPath();
+      return (
+        !!path &&
+        autoRefresh.locks.reason(path) === null &&
+        autoRefresh.hasChangedCells(path)
+      );
+    },
+    execute: () => {
+      const path = currentPath();
+      if (path) {
+        return autoRefresh.runChangedCells(path);
+      }
+    }
+  });
+
+  commands.addCommand(CommandIDs.runChangedBelow, {
+    label: 'Run Cells Changed on Disk and Below',
+    caption:
+      'Run every cell from the first one changed by the last external edit',
+    isEnabled: () => {
+      const path = currentPath();
+      return (
+        !!path &&
+        autoRefresh.locks.reason(path) === null &&
+        autoRefresh.hasChangedCells(path)
+      );
+    },
+    execute: () => {
+      const path = currentPath();
+      if (path) {
+        return autoRefresh.runChangedCells(path, true);
+      }
+    }
+  });
+
+  commands.addCommand(CommandIDs.showLog, {
+    label: 'Show Refresh Log',
+    caption: 'Show the log of external changes and refreshes',
+    execute: () => shell.activateById(LOG_PANEL_ID)
+  });
+
+  commands.addCommand(CommandIDs.showChangedFiles, {
+    label: 'Show Notebooks Changed on Disk',
+    caption: 'Show the closed notebooks recently changed on disk',
+    execute: () => shell.activateById(CHANGED_PANEL_ID)
+  });
+
+  // Keep toggled and enabled states in sync with the watcher
+  const notifyChanged = () => {
+    commands.notifyCommandChanged(CommandIDs.togglePause);
+    commands.notifyCommandChanged(CommandIDs.togglePauseDocument);
+    commands.notifyCommandChanged(CommandIDs.revert);
+    commands.notifyCommandChanged(CommandIDs.runChanged);
+    commands.notifyCommandChanged(CommandIDs.runChangedBelow);
+  };
+  autoRefresh.status.changed.connect(notifyChanged);
+  autoRefresh.history.changed.connect(notifyChanged);
+  autoRefresh.locks.changed.connect(notifyChanged);
+  shell.currentChanged?.connect(notifyChanged);
+
+  if (palette) {
+    const category = 'Claude Code Auto-Refresh';
+    [
+      CommandIDs.togglePause,
+      CommandIDs.togglePauseDocument,
+      CommandIDs.checkNow,
+      CommandIDs.refresh,
+      CommandIDs.revert,
+      CommandIDs.resolveConflict,
+      CommandIDs.runChanged,
+      CommandIDs.runChangedBelow,
+      CommandIDs.showLog,
+      CommandIDs.showChangedFiles
+    ].forEach(command => palette.addItem({ command, category }));
+  }
+}
+
 /**
  * Initialization data for the Claude Code Auto-Refresh extension.
  */
-const plugin: JupyterFrontEndPlugin<void> = {
+const plugin: JupyterFrontEndPlugin<IClaudeCodeRefresh> = {
   id: 'jupyterlab-claude-code-refresh:plugin',
   description: 'Auto-refresh notebooks when modified by Claude Code',
   autoStart: true,
   requires: [IDocumentManager],
-  optional: [ISettingRegistry],
+  optional: [
+    ISettingRegistry,
+    IStatusBar,
+    ICommandPalette,
+    IStateDB,
+    IDefaultFileBrowser,
+    INotebookTracker
+  ],
+  provides: IClaudeCodeRefresh,
   activate: async (
     app: JupyterFrontEnd,
     docManager: IDocumentManager,
-    settingRegistry: ISettingRegistry | null
-  ) => {
+    settingRegistry: ISettingRegistry | null,
+    statusBar: IStatusBar | null,
+    palette: ICommandPalette | null,
+    state: IStateDB | null,
+    fileBrowser: IDefaultFileBrowser | null,
+    notebookTracker: INotebookTracker | null
+  ): Promise<IClaudeCodeRefresh> => {
     console.log('Claude Code Auto-Refresh extension is activated!');
 
+    // Track the open documents in every area, including those opened
+    // before the extension was activated
+    const documents = new DocumentTracker(docManager, notebookTracker);
+    Array.from(app.shell.widgets('main')).forEach(widget =>
+      documents.track(widget)
+    );
+
     // Create the auto-refresh instance
     const autoRefresh = new ClaudeCodeAutoRefresh(
       app,
-      app.serviceManager.contents
+      app.serviceManager.contents,
+      docManager,
+      documents
     );
 
     // Set the settings registry reference
@@ -662,38 +3228,11 @@ const plugin: JupyterFrontEndPlugin<void> = {
     if (settingRegistry) {
       try {
         const settings = await settingRegistry.load(plugin.id);
-        const pluginSettings: ISettings = {
-          enabled: settings.get('enabled').composite as boolean,
-          refreshDelay: settings.get('refreshDelay').composite as number,
-          showNotifications: settings.get('showNotifications')
-            .composite as boolean,
-          logLevel: settings.get('logLevel').composite as LogLevel,
-          conflictResolution: settings.get('conflictResolution').composite as
-            | 'ask'
-            | 'keepLocal'
-            | 'useExternal',
-          showWelcomeBanner: settings.get('showWelcomeBanner')
-            .composite as boolean
-        };
-
-        autoRefresh.updateSettings(pluginSettings);
+        autoRefresh.updateSettings(readSettings(settings));
 
         // Listen for settings changes
         settings.changed.connect(() => {
-          const newSettings: ISettings = {
-            enabled: settings.get('enabled').composite as boolean,
-            refreshDelay: settings.get('refreshDelay').composite as number,
-            showNotifications: settings.get('showNotifications')
-              .composite as boolean,
-            logLevel: settings.get('logLevel').composite as LogLevel,
-            conflictResolution: settings.get('conflictResolution').composite as
-              | 'ask'
-              | 'keepLocal'
-              | 'useExternal',
-            showWelcomeBanner: settings.get('showWelcomeBanner')
-              .composite as boolean
-          };
-          autoRefresh.updateSettings(newSettings);
+          autoRefresh.updateSettings(readSettings(settings));
         });
       } catch (error) {
         console.warn(
@@ -703,6 +3242,60 @@ const plugin: JupyterFrontEndPlugin<void> = {
       }
     }
 
+    // Add the snapshot history panel to the left sidebar
+    const historyPanel = new SnapshotHistoryPanel(autoRefresh.history, {
+      preview: snapshot => autoRefresh.previewSnapshot(snapshot),
+      diff: snapshot => autoRefresh.diffSnapshot(snapshot),
+      restore: snapshot => autoRefresh.restoreSnapshot(snapshot)
+    });
+    app.shell.add(historyPanel, 'left', { rank: 900 });
+
+    // Add the event log panel to the right sidebar, restoring the entries
+    // logged in previous sessions
+    const logPanel = new EventLogPanel(autoRefresh.eventLog);
+    app.shell.add(logPanel, 'right', { rank: 900 });
+    if (state) {
+      autoRefresh.eventLog
+        .restore(state)
+        .catch(error =>
+          console.warn('Claude Code Auto-Refresh: could not restore log', error)
+        );
+    }
+
+    // List the closed notebooks changed on disk in the left sidebar, and
+    // badge them in the file browser
+    const changedPanel = new ChangedFilesPanel(autoRefresh.workspace, path =>
+      autoRefresh.openChangedFile(path)
+    );
+    app.shell.add(changedPanel, 'left', { rank: 901 });
+    if (fileBrowser) {
+      new FileBrowserBadges(fileBrowser, autoRefresh.workspace);
+    }
+    if (state) {
+      autoRefresh.workspace
+        .restore(state)
+        .catch(error =>
+          console.warn(
+            'Claude Code Auto-Refresh: could not restore changed files',
+            error
+          )
+        );
+    }
+
+    addCommands(app, autoRefresh, palette);
+
+    // Show the watcher state in the status bar
+    if (statusBar) {
+      const statusItem = new RefreshStatusItem(autoRefresh.status, () => {
+        autoRefresh.paused = !autoRefresh.paused;
+      });
+      statusBar.registerStatusItem('jupyterlab-claude-code-refresh:status', {
+        item: statusItem,
+        align: 'left',
+        rank: 900
+      });
+    }
+
     // Initialize the auto-refresh functionality
     autoRefresh.initialize();
 
@@ -712,7 +3305,13 @@ const plugin: JupyterFrontEndPlugin<void> = {
         autoRefresh.dispose();
       });
     });
+
+    return autoRefresh;
   }
 };
 
 export default plugin;
+export * from './tokens';
+export type { ChangeSource } from './attribution';
+export type { DocumentLocks, ILockChange, LockReason } from './lock';
+export type { ConflictResolution } from './policy';
@@ -0,0 +1,284 @@
+import { Cell } from '@jupyterlab/cells';
+import { CodeEditor } from '@jupyterlab/codeeditor';
+import { Notebook } from '@jupyterlab/notebook';
+import { IDisposable } from '@lumino/disposable';
+import { ISignal, Signal } from '@lumino/signaling';
+import { Widget } from '@lumino/widgets';
+
+/**
+ * Class added to the content of a locked document widget
+ */
+const LOCKED_CLASS = 'jp-claude-code-refresh-locked';
+
+/**
+ * Class of the overlay shown over a locked document
+ */
+const OVERLAY_CLASS = 'jp-claude-code-refresh-lock-overlay';
+
+/**
+ * Class of the banner at the top of the overlay
+ */
+const BANNER_CLASS = 'jp-claude-code-refresh-banner';
+
+/**
+ * Why a document is locked
+ *
+ * - `announced`: Claude Code announced it is editing the file
+ * - `quiet`: the file changed on disk and is locked until writes stop
+ */
+export type LockReason = 'announced' | 'quiet';
+
+/**
+ * A change of the lock state of a document
+ */
+export interface ILockChange {
+  path: string;
+  locked: boolean;
+  reason: LockReason | null; // null once unlocked
+}
+
+/**
+ * How a document is locked
+ */
+export interface ILockOptions {
+  reason: LockReason;
+  message: string;
+  onOverride: () => void; // called when the user unlocks the document
+}
+
+/**
+ * A read-only lock on a document widget, with an overlay saying why
+ *
+ * The content of the widget (the notebook or the editor, not the toolbar)
+ * is greyed out and made inert, so it can neither be focused nor edited.
+ * The cells of a notebook, including those added while locked, and the
+ * editor of a text file are made read-only too, so their editors refuse
+ * input even when reached; the cell models are left untouched. The overlay
+ * banner has a button to override the lock.
+ */
+export class DocumentLock implements IDisposable {
+  private _content: Widget;
+  private _overlay: HTMLElement;
+  private _message: HTMLElement;
+  private _inert = new Map<Element, boolean>(); // child -> inert before locking
+  private _cells = new Map<
+    Cell,
+    { readOnly: boolean; syncEditable: boolean | undefined }
+  >(); // cell -> state before locking
+  private _editor: CodeEditor.IEditor | null = null;
+  private _editorReadOnly: unknown = false;
+  private _onOverride: () => void;
+  private _isDisposed = false;
+
+  constructor(widget: Widget, options: ILockOptions) {
+    this._content = (widget as any).content ?? widget;
+    this._onOverride = options.onOverride;
+
+    this._overlay = document.createElement('div');
+    this._overlay.className = OVERLAY_CLASS;
+
+    const banner = document.createElement('div');
+    banner.className = BANNER_CLASS;
+    this._message = document.createElement('span');
+    this._message.textContent = options.message;
+    const button = document.createElement('button');
+    button.className = 'jp-Button jp-mod-styled jp-mod-reject';
+    button.textContent = 'Unlock';
+    button.title = 'Unlock the document and load the changes on disk now';
+    button.onclick = () => this._onOverride();
+    banner.append(this._message, button);
+    this._overlay.appendChild(banner);
+
+    // Make the existing children inert rather than the content itself, so
+    // the overlay added next to them stays clickable
+    Array.from(this._content.node.children).forEach(child => {
+      const element = child as HTMLElement;
+      this._inert.set(element, element.inert);
+      element.inert = true;
+    });
+    this._content.addClass(LOCKED_CLASS);
+    this._content.node.appendChild(this._overlay);
+
+    if (this._content instanceof Notebook) {
+      this._lockCells();
+      this._content.model?.cells.changed.connect(this._lockCells, this);
+    } else {
+      const editor = (this._content as { editor?: CodeEditor.IEditor }).editor;
+      if (editor) {
+        this._editor = editor;
+        this._editorReadOnly = editor.getOption('readOnly');
+        editor.setOption('readOnly', true);
+      }
+    }
+  }
+
+  /**
+   * Update the message shown and the override action
+   */
+  update(options: ILockOptions): void {
+    this._message.textContent = options.message;
+    this._onOverride = options.onOverride;
+  }
+
+  /**
+   * Whether the lock has been released
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Release the lock and remove the overlay
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+
+    this._overlay.remove();
+    this._content.removeClass(LOCKED_CLASS);
+    this._inert.forEach((inert, child) => {
+      (child as HTMLElement).inert = inert;
+    });
+    this._inert.clear();
+
+    if (this._content instanceof Notebook) {
+      this._content.model?.cells.changed.disconnect(this._lockCells, this);
+    }
+    this._cells.forEach(({ readOnly, syncEditable }, cell) => {
+      if (!cell.isDisposed) {
+        cell.readOnly = readOnly;
+        cell.syncEditable = syncEditable;
+      }
+    });
+    this._cells.clear();
+    this._editor?.setOption('readOnly', this._editorReadOnly);
+    this._editor = null;
+  }
+
+  /**
+   * Make the cells of the notebook read-only, without saving it to their
+   * `editable` metadata
+   */
+  private _lockCells(): void {
+    (this._content as Notebook).widgets.forEach(cell => {
+      if (this._cells.has(cell)) {
+        return;
+      }
+      this._cells.set(cell, {
+        readOnly: cell.readOnly,
+        syncEditable: cell.syncEditable
+      });
+      cell.syncEditable = false;
+      cell.readOnly = true;
+    });
+  }
+}
+
+/**
+ * The read-only locks of the open documents, by path
+ *
+ * Locking a path again replaces its reason and message; `changed` is
+ * emitted whenever a path is locked, unlocked or locked for another reason.
+ */
+export class DocumentLocks implements IDisposable {
+  private _locks = new Map<
+    string,
+    { reason: LockReason; locks: DocumentLock[] }
+  >();
+  private _changed = new Signal<this, ILockChange>(this);
+  private _isDisposed = false;
+
+  /**
+   * A signal emitted when the lock state of a document changes
+   */
+  get changed(): ISignal<this, ILockChange> {
+    return this._changed;
+  }
+
+  /**
+   * The paths currently locked
+   */
+  get paths(): string[] {
+    return Array.from(this._locks.keys());
+  }
+
+  /**
+   * Whether the locks have been released for good
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Why a path is locked, or null if it isn't
+   */
+  reason(path: string): LockReason | null {
+    return this._locks.get(path)?.reason ?? null;
+  }
+
+  /**
+   * Lock the widgets of a document
+   */
+  lock(path: string, widgets: Widget[], options: ILockOptions): void {
+    const existing = this._locks.get(path);
+    if (existing) {
+      existing.locks.forEach(lock => lock.update(options));
+      if (existing.reason !== options.reason) {
+        existing.reason = options.reason;
+        this._changed.emit({ path, locked: true, reason: options.reason });
+      }
+      return;
+    }
+
+    this._locks.set(path, {
+      reason: options.reason,
+      locks: widgets.map(widget => new DocumentLock(widget, options))
+    });
+    this._changed.emit({ path, locked: true, reason: options.reason });
+  }
+
+  /**
+   * Unlock a document, if locked
+   */
+  unlock(path: string): void {
+    const existing = this._locks.get(path);
+    if (!existing) {
+      return;
+    }
+    this._locks.delete(path);
+    existing.locks.forEach(lock => lock.dispose());
+    this._changed.emit({ path, locked: false, reason: null });
+  }
+
+  /**
+   * Follow a document renamed or moved on disk
+   */
+  rename(oldPath: string, newPath: string): void {
+    const existing = this._locks.get(oldPath);
+    if (existing) {
+      this._locks.delete(oldPath);
+      this._locks.set(newPath, existing);
+      this._changed.emit({ path: oldPath, locked: false, reason: null });
+      this._changed.emit({
+        path: newPath,
+        locked: true,
+        reason: existing.reason
+      });
+    }
+  }
+
+  /**
+   * Release every lock
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this._locks.forEach(({ locks }) => locks.forEach(lock => lock.dispose()));
+    this._locks.clear();
+    Signal.clearData(this);
+  }
+}
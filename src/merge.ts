@@ -0,0 +1,193 @@
+import * as nbformat from '@jupyterlab/nbformat';
+import { JSONExt } from '@lumino/coreutils';
+
+import { cellsEqual } from './diff';
+
+/**
+ * A cell changed differently in the local and external versions
+ */
+export interface IMergeConflict {
+  id: string;
+  base: nbformat.ICell | null;
+  local: nbformat.ICell | null;
+  external: nbformat.ICell | null;
+}
+
+/**
+ * The result of a three-way notebook merge
+ *
+ * `cells` lists the merged cells in order; conflicting cells are stored by
+ * ID in `conflicts` and take the position of a `null` placeholder entry.
+ */
+export interface IMergeResult {
+  notebook: nbformat.INotebookContent;
+  cells: Array<{ cell: nbformat.ICell | null; conflict: string | null }>;
+  conflicts: IMergeConflict[];
+  merged: number;
+}
+
+/**
+ * Which side to keep for a conflicting cell
+ */
+export type MergeChoice = 'local' | 'external';
+
+/**
+ * Get the IDs of all cells, or null if any cell has none
+ */
+function cellIds(notebook: nbformat.INotebookContent): string[] | null {
+  const ids: string[] = [];
+  for (const cell of notebook.cells ?? []) {
+    if (typeof cell.id !== 'string' || !cell.id) {
+      return null;
+    }
+    ids.push(cell.id);
+  }
+  return ids;
+}
+
+/**
+ * Index the cells of a notebook by ID
+ */
+function cellMap(
+  notebook: nbformat.INotebookContent
+): Map<string, nbformat.ICell> {
+  const map = new Map<string, nbformat.ICell>();
+  (notebook.cells ?? []).forEach(cell => map.set(cell.id as string, cell));
+  return map;
+}
+
+/**
+ * Whether a cell changed between the base and one side
+ */
+function changed(
+  base: nbformat.ICell | undefined,
+  side: nbformat.ICell | undefined
+): boolean {
+  if (!base || !side) {
+    return base !== side;
+  }
+  return !cellsEqual(base, side);
+}
+
+/**
+ * Three-way merge of notebook cells, matched by cell ID
+ *
+ * Cells changed on one side only are merged automatically; cells changed
+ * differently on both sides are reported as conflicts. Returns null when a
+ * version has cells without IDs, since those cannot be matched reliably.
+ */
+export function mergeNotebooks(
+  base: nbformat.INotebookContent,
+  local: nbformat.INotebookContent,
+  external: nbformat.INotebookContent
+): IMergeResult | null {
+  const localIds = cellIds(local);
+  const externalIds = cellIds(external);
+  if (!cellIds(base) || !localIds || !externalIds) {
+    return null;
+  }
+
+  const baseCells = cellMap(base);
+  const localCells = cellMap(local);
+  const externalCells = cellMap(external);
+
+  const resolved = new Map<string, nbformat.ICell | null>();
+  const conflicts: IMergeConflict[] = [];
+  let merged = 0;
+
+  const ids = new Set([...baseCells.keys(), ...localIds, ...externalIds]);
+  ids.forEach(id => {
+    const baseCell = baseCells.get(id);
+    const localCell = localCells.get(id);
+    const externalCell = externalCells.get(id);
+    const localChanged = changed(baseCell, localCell);
+    const externalChanged = changed(baseCell, externalCell);
+
+    if (!externalChanged) {
+      resolved.set(id, localCell ?? null);
+    } else if (!localChanged) {
+      resolved.set(id, externalCell ?? null);
+      merged++;
+    } else if (
+      localCell === externalCell ||
+      (localCell && externalCell && cellsEqual(localCell, externalCell))
+    ) {
+      // Both sides made the same change
+      resolved.set(id, externalCell ?? null);
+    } else {
+      conflicts.push({
+        id,
+        base: baseCell ?? null,
+        local: localCell ?? null,
+        external: externalCell ?? null
+      });
+    }
+  });
+
+  // Follow the external order, slotting local-only cells after their
+  // closest preceding local neighbour
+  const conflictIds = new Set(conflicts.map(conflict => conflict.id));
+  const keep = (id: string) => conflictIds.has(id) || !!resolved.get(id);
+  const order = externalIds.filter(keep);
+  const placed = new Set(order);
+
+  localIds.forEach((id, index) => {
+    if (placed.has(id) || !keep(id)) {
+      return;
+    }
+    let position = 0;
+    for (let k = index - 1; k >= 0; k--) {
+      const found = order.indexOf(localIds[k]);
+      if (found !== -1) {
+        position = found + 1;
+        break;
+      }
+    }
+    order.splice(position, 0, id);
+    placed.add(id);
+  });
+
+  // Notebook metadata follows whichever side changed it, disk first
+  const metadata = JSONExt.deepEqual(
+    external.metadata as any,
+    base.metadata as any
+  )
+    ? local.metadata
+    : external.metadata;
+
+  return {
+    notebook: { ...external, metadata },
+    cells: order.map(id =>
+      conflictIds.has(id)
+        ? { cell: null, conflict: id }
+        : { cell: resolved.get(id), conflict: null }
+    ),
+    conflicts,
+    merged
+  };
+}
+
+/**
+ * Build the merged notebook once every conflict has a choice
+ */
+export function resolveMerge(
+  result: IMergeResult,
+  choices: Map<string, MergeChoice>
+): nbformat.INotebookContent {
+  const conflicts = new Map(
+    result.conflicts.map(conflict => [conflict.id, conflict])
+  );
+  const cells: nbformat.ICell[] = [];
+
+  result.cells.forEach(({ cell, conflict }) => {
+    if (conflict) {
+      const choice = choices.get(conflict) ?? 'local';
+      cell = conflicts.get(conflict)[choice];
+    }
+    if (cell) {
+      cells.push(cell);
+    }
+  });
+
+  return { ...result.notebook, cells };
+}
@@ -0,0 +1,75 @@
+import * as nbformat from '@jupyterlab/nbformat';
+
+import { cellOutputs, diffNotebooks } from './diff';
+
+/**
+ * The on-disk notebook with the local outputs carried over
+ */
+export interface IKeptOutputs {
+  notebook: nbformat.INotebookContent;
+  kept: number; // cells whose local outputs were kept
+  stale: number[]; // indices of kept cells whose source has changed
+}
+
+/**
+ * Whether a code cell carries any execution results
+ */
+function hasResults(cell: nbformat.ICell): boolean {
+  return (
+    cellOutputs(cell).length > 0 ||
+    (cell.execution_count !== null && cell.execution_count !== undefined)
+  );
+}
+
+/**
+ * Carry local outputs and execution counts over to the notebook on disk
+ *
+ * Tools that edit notebooks through nbformat often write them back without
+ * outputs. For every code cell that comes without results from disk, the
+ * outputs and execution count of its local counterpart are kept; outputs
+ * are only replaced when the file actually brings new ones. Kept outputs of
+ * cells whose source changed no longer match their code, so those cells are
+ * reported as stale.
+ */
+export function keepLocalOutputs(
+  local: nbformat.INotebookContent,
+  external: nbformat.INotebookContent
+): IKeptOutputs {
+  const counterparts = new Map<nbformat.ICell, nbformat.ICell>();
+  const sourceChanged = new Set<nbformat.ICell>();
+
+  diffNotebooks(local, external).forEach(diff => {
+    if (diff.local && diff.external) {
+      counterparts.set(diff.external, diff.local);
+      if (diff.sourceChanged) {
+        sourceChanged.add(diff.external);
+      }
+    }
+  });
+
+  let kept = 0;
+  const stale: number[] = [];
+  const cells = (external.cells ?? []).map((cell, index) => {
+    const localCell = counterparts.get(cell);
+    if (
+      cell.cell_type !== 'code' ||
+      localCell?.cell_type !== 'code' ||
+      hasResults(cell) ||
+      !hasResults(localCell)
+    ) {
+      return cell;
+    }
+
+    kept++;
+    if (sourceChanged.has(cell)) {
+      stale.push(index);
+    }
+    return {
+      ...cell,
+      outputs: localCell.outputs,
+      execution_count: localCell.execution_count
+    } as nbformat.ICodeCell;
+  });
+
+  return { notebook: { ...external, cells }, kept, stale };
+}
@@ -0,0 +1,128 @@
+import * as nbformat from '@jupyterlab/nbformat';
+import { INotebookModel } from '@jupyterlab/notebook';
+import { JSONExt } from '@lumino/coreutils';
+
+import { cellSource, cellsEqual, outputsEqual } from './diff';
+
+/**
+ * Counts of the operations applied by a model patch
+ */
+export interface IPatchStats {
+  inserted: number;
+  deleted: number;
+  moved: number;
+  updated: number;
+}
+
+/**
+ * Whether every cell ID is a non-empty string
+ */
+function validIds(ids: unknown[]): boolean {
+  return ids.every(id => typeof id === 'string' && !!id);
+}
+
+/**
+ * Update a notebook model in place to match the given content
+ *
+ * Cells are matched by ID. Only the needed inserts, deletes, moves and
+ * source/output/metadata updates are applied to the shared model, in a
+ * single transaction, so unchanged cells and their widgets are left alone.
+ * Returns null when either side has cells without IDs.
+ *
+ * The cells of the shared model are only updated once the transaction is
+ * over, so the patch follows its own copy of them. A moved cell is inserted
+ * afresh with its new content, as moving a shared cell copies it anyway.
+ */
+export function patchNotebook(
+  model: INotebookModel,
+  content: nbformat.INotebookContent
+): IPatchStats | null {
+  const sharedModel = model.sharedModel;
+  const target = content.cells ?? [];
+
+  if (
+    !validIds(target.map(cell => cell.id)) ||
+    !validIds(sharedModel.cells.map(cell => cell.id))
+  ) {
+    return null;
+  }
+
+  const stats: IPatchStats = { inserted: 0, deleted: 0, moved: 0, updated: 0 };
+  const targetIds = new Set(target.map(cell => cell.id as string));
+
+  const cells = [...sharedModel.cells];
+  sharedModel.transact(() => {
+    // Drop cells that are gone, from the end so indices stay valid
+    for (let index = cells.length - 1; index >= 0; index--) {
+      if (!targetIds.has(cells[index].id)) {
+        sharedModel.deleteCell(index);
+        cells.splice(index, 1);
+        stats.deleted++;
+      }
+    }
+
+    target.forEach((cell, index) => {
+      const current = cells
+        .map(shared => shared.id)
+        .indexOf(cell.id as string, index);
+
+      if (current === -1) {
+        cells.splice(index, 0, sharedModel.insertCell(index, cell as any));
+        stats.inserted++;
+        return;
+      }
+
+      if (current !== index) {
+        sharedModel.deleteCell(current);
+        cells.splice(current, 1);
+        cells.splice(index, 0, sharedModel.insertCell(index, cell as any));
+        stats.moved++;
+        return;
+      }
+
+      const shared = cells[index];
+      const existing = shared.toJSON() as nbformat.ICell;
+      if (cellsEqual(existing, cell)) {
+        return;
+      }
+
+      if (existing.cell_type !== cell.cell_type) {
+        sharedModel.deleteCell(index);
+        cells[index] = sharedModel.insertCell(index, cell as any);
+        stats.updated++;
+        return;
+      }
+
+      const source = cellSource(cell);
+      if (shared.getSource() !== source) {
+        shared.setSource(source);
+      }
+      if (!JSONExt.deepEqual(existing.metadata ?? {}, cell.metadata ?? {})) {
+        shared.setMetadata(cell.metadata ?? {});
+      }
+      if (nbformat.isCode(cell)) {
+        const code = shared as any;
+        if (!outputsEqual(existing, cell)) {
+          code.setOutputs(cell.outputs ?? []);
+        }
+        if (code.execution_count !== cell.execution_count) {
+          code.execution_count = cell.execution_count;
+        }
+      } else if (
+        !JSONExt.deepEqual(
+          (existing.attachments ?? null) as any,
+          (cell.attachments ?? null) as any
+        )
+      ) {
+        (shared as any).setAttachments(cell.attachments);
+      }
+      stats.updated++;
+    });
+
+    if (!JSONExt.deepEqual(sharedModel.getMetadata(), content.metadata)) {
+      sharedModel.setMetadata(content.metadata);
+    }
+  });
+
+  return stats;
+}
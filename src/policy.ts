@@ -0,0 +1,118 @@
+import { ChangeSource } from './attribution';
+import { matchGlob } from './glob';
+
+/**
+ * What to do when a document with unsaved changes is modified externally
+ */
+export type ConflictResolution = 'ask' | 'merge' | 'keepLocal' | 'useExternal';
+
+/**
+ * How external changes to a given path are handled
+ */
+export interface IRefreshPolicy {
+  enabled: boolean;
+  conflictResolution: ConflictResolution;
+  refreshDelay: number;
+  showNotifications: boolean;
+}
+
+/**
+ * A settings rule overriding the policy for matching changes
+ *
+ * A rule matches paths matching its glob `pattern` and changes attributed
+ * to its `source`; a rule without one of them matches any path or source.
+ */
+export interface IPolicyRule extends Partial<IRefreshPolicy> {
+  pattern?: string;
+  source?: ChangeSource;
+}
+
+/**
+ * Notebook metadata key holding a per-notebook policy override
+ */
+export const METADATA_KEY = 'claude_code_refresh';
+
+const CONFLICT_RESOLUTIONS: ConflictResolution[] = [
+  'ask',
+  'merge',
+  'keepLocal',
+  'useExternal'
+];
+
+/**
+ * Keep only the valid policy fields of an untrusted object
+ *
+ * Notebook metadata can be edited by hand (or by Claude Code), so anything
+ * with the wrong type is ignored rather than trusted.
+ */
+function validOverrides(value: unknown): Partial<IRefreshPolicy> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+
+  const source = value as Record<string, unknown>;
+  const overrides: Partial<IRefreshPolicy> = {};
+
+  if (typeof source.enabled === 'boolean') {
+    overrides.enabled = source.enabled;
+  }
+  if (
+    CONFLICT_RESOLUTIONS.includes(
+      source.conflictResolution as ConflictResolution
+    )
+  ) {
+    overrides.conflictResolution =
+      source.conflictResolution as ConflictResolution;
+  }
+  if (typeof source.refreshDelay === 'number' && source.refreshDelay >= 0) {
+    overrides.refreshDelay = source.refreshDelay;
+  }
+  if (typeof source.showNotifications === 'boolean') {
+    overrides.showNotifications = source.showNotifications;
+  }
+
+  return overrides;
+}
+
+/**
+ * Whether a rule applies to a path and change source
+ *
+ * Rules with a source never apply while the source is unknown.
+ */
+function ruleMatches(
+  rule: IPolicyRule,
+  path: string,
+  source?: ChangeSource
+): boolean {
+  if (!rule.pattern && !rule.source) {
+    return false;
+  }
+  if (rule.pattern && !matchGlob(path, rule.pattern)) {
+    return false;
+  }
+  return !rule.source || rule.source === source;
+}
+
+/**
+ * Resolve the effective policy for a path and the source of its change
+ *
+ * The global settings are overridden by every matching rule in order (so
+ * later rules win), then by the `claude_code_refresh` notebook metadata.
+ */
+export function resolvePolicy(
+  defaults: IRefreshPolicy,
+  rules: IPolicyRule[],
+  path: string,
+  metadata?: unknown,
+  source?: ChangeSource
+): IRefreshPolicy {
+  let policy = { ...defaults };
+
+  rules
+    .filter(rule => ruleMatches(rule, path, source))
+    .forEach(rule => {
+      policy = { ...policy, ...validOverrides(rule) };
+    });
+
+  return { ...policy, ...validOverrides(metadata) };
+}
@@ -0,0 +1,190 @@
+import { IDisposable } from '@lumino/disposable';
+
+/**
+ * How many times the base interval an idle file can back off to
+ */
+const MAX_BACKOFF = 8;
+
+/**
+ * Options of the polling scheduler
+ */
+export interface IPollSchedulerOptions {
+  /**
+   * The base polling interval in milliseconds, read before every tick so
+   * settings changes apply right away
+   */
+  interval: () => number;
+
+  /**
+   * Run one polling tick; the next tick is scheduled once it settles
+   */
+  tick: () => Promise<void>;
+}
+
+/**
+ * Backoff state of a polled path
+ */
+interface IPathState {
+  interval: number; // current polling interval
+  due: number; // time of the next check
+}
+
+/**
+ * Adaptive polling loop
+ *
+ * Ticks every base interval while the browser tab is visible, and stops
+ * while it is hidden. Each path is due at its own pace: a path that didn't
+ * change when checked waits twice as long before its next check, up to
+ * `MAX_BACKOFF` times the base interval, and a path that changed is
+ * checked at the base interval again.
+ */
+export class PollScheduler implements IDisposable {
+  private _options: IPollSchedulerOptions;
+  private _paths = new Map<string, IPathState>();
+  private _timer: number | null = null;
+  private _started = false;
+  private _running = false;
+  private _isDisposed = false;
+
+  constructor(options: IPollSchedulerOptions) {
+    this._options = options;
+    document.addEventListener('visibilitychange', this._onVisibilityChange);
+  }
+
+  /**
+   * Whether the scheduler has been disposed
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Start ticking
+   */
+  start(): void {
+    this._started = true;
+    this._schedule();
+  }
+
+  /**
+   * Restart the wait for the next tick with the current interval, e.g.
+   * after the settings changed
+   */
+  reschedule(): void {
+    if (this._started) {
+      this._schedule();
+    }
+  }
+
+  /**
+   * The paths due for a check, among the given ones
+   *
+   * Paths not seen before are due right away; paths no longer given are
+   * forgotten.
+   */
+  duePaths(paths: string[]): string[] {
+    const now = Date.now();
+    const current = new Set(paths);
+    Array.from(this._paths.keys()).forEach(path => {
+      if (!current.has(path)) {
+        this._paths.delete(path);
+      }
+    });
+    return paths.filter(path => (this._paths.get(path)?.due ?? 0) <= now);
+  }
+
+  /**
+   * Record the result of checking a path, setting when it is next due
+   */
+  record(path: string, changed: boolean): void {
+    const base = this._options.interval();
+    const previous = this._paths.get(path)?.interval ?? base;
+    const interval = changed
+      ? base
+      : Math.min(Math.max(previous * 2, base), base * MAX_BACKOFF);
+    this._paths.set(path, { interval, due: Date.now() + interval });
+  }
+
+  /**
+   * Stop ticking
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    document.removeEventListener('visibilitychange', this._onVisibilityChange);
+    this._clearTimer();
+    this._paths.clear();
+  }
+
+  /**
+   * Schedule the next tick after the base interval
+   */
+  private _schedule(): void {
+    this._clearTimer();
+    if (this._isDisposed || this._running || document.hidden) {
+      return;
+    }
+    this._timer = window.setTimeout(
+      () => void this._tick(),
+      this._options.interval()
+    );
+  }
+
+  /**
+   * Run a tick, never overlapping the previous one
+   */
+  private async _tick(): Promise<void> {
+    this._timer = null;
+    if (this._running) {
+      return;
+    }
+    this._running = true;
+    try {
+      await this._options.tick();
+    } catch (error) {
+      console.warn('Claude Code Auto-Refresh: polling failed', error);
+    } finally {
+      this._running = false;
+      this._schedule();
+    }
+  }
+
+  private _clearTimer(): void {
+    if (this._timer !== null) {
+      window.clearTimeout(this._timer);
+      this._timer = null;
+    }
+  }
+
+  /**
+   * Stop while the tab is hidden, and catch up as soon as it is visible
+   */
+  private _onVisibilityChange = (): void => {
+    if (document.hidden) {
+      this._clearTimer();
+    } else if (this._started && !this._running) {
+      void this._tick();
+    }
+  };
+}
+
+/**
+ * Run an async function over items, at most `limit` at a time
+ */
+export async function runConcurrently<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+}
@@ -0,0 +1,132 @@
+import { Cell } from '@jupyterlab/cells';
+import * as nbformat from '@jupyterlab/nbformat';
+import { Notebook } from '@jupyterlab/notebook';
+
+import { diffNotebooks } from './diff';
+
+/**
+ * Class added to the cells changed by an external edit
+ */
+const STALE_CLASS = 'jp-claude-code-refresh-stale';
+
+/**
+ * Class added to the input prompt of those cells, showing the marker
+ */
+const STALE_PROMPT_CLASS = 'jp-claude-code-refresh-stale-prompt';
+
+/**
+ * Find the code cells an update added or whose source it changed
+ *
+ * Returns their indices in the updated notebook.
+ */
+export function changedCellIndices(
+  before: nbformat.INotebookContent,
+  after: nbformat.INotebookContent
+): number[] {
+  const changed = new Set<nbformat.ICell>();
+  diffNotebooks(before, after).forEach(diff => {
+    if (
+      diff.external?.cell_type === 'code' &&
+      (diff.type === 'added' || diff.sourceChanged)
+    ) {
+      changed.add(diff.external);
+    }
+  });
+
+  return (after.cells ?? [])
+    .map((cell, index) => (changed.has(cell) ? index : -1))
+    .filter(index => index >= 0);
+}
+
+/**
+ * Cells whose code changed on disk since the kernel last ran them
+ *
+ * Cells are tracked by model ID per notebook widget, and flagged with a
+ * marker in their input prompt until they are run. The tracked cells are
+ * the source of truth: a windowed notebook only renders the cells in view,
+ * so the marker is applied again whenever a cell is rendered.
+ */
+export class StaleCells {
+  private _stale = new WeakMap<Notebook, Set<string>>(); // cell model IDs
+  private _watched = new WeakSet<Cell>(); // cells followed as they render
+
+  /**
+   * Mark the cells at the given indices as stale
+   */
+  mark(notebook: Notebook, indices: number[]): void {
+    const stale = this._stale.get(notebook) ?? new Set<string>();
+    this._stale.set(notebook, stale);
+    indices.forEach(index => {
+      const cell = notebook.widgets[index];
+      if (cell) {
+        stale.add(cell.model.id);
+        this._render(notebook, cell);
+      }
+    });
+  }
+
+  /**
+   * Clear the marker of a cell, e.g. once it has been run
+   */
+  clear(notebook: Notebook, cell: Cell): void {
+    if (this._stale.get(notebook)?.delete(cell.model.id)) {
+      setMarker(cell, false);
+    }
+  }
+
+  /**
+   * Whether a cell is stale
+   */
+  has(notebook: Notebook, cell: Cell): boolean {
+    return !!this._stale.get(notebook)?.has(cell.model.id);
+  }
+
+  /**
+   * The stale cells still in the notebook, in notebook order
+   */
+  cells(notebook: Notebook): Cell[] {
+    const stale = this._stale.get(notebook);
+    if (!stale) {
+      return [];
+    }
+    return notebook.widgets.filter(cell => stale.has(cell.model.id));
+  }
+
+  /**
+   * Show the marker of a stale cell, now and whenever the cell is rendered
+   */
+  private _render(notebook: Notebook, cell: Cell): void {
+    const update = () => setMarker(cell, this.has(notebook, cell));
+    update();
+    if (!this._watched.has(cell)) {
+      this._watched.add(cell);
+      // Placeholder cells only get their prompt once fully rendered
+      void cell.ready.then(update);
+      cell.inViewportChanged.connect((sender, inViewport) => {
+        if (inViewport) {
+          update();
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Show or hide the stale marker of a cell
+ *
+ * The class set on the cell node is kept when the cell renders; the
+ * marker itself goes on the input prompt, once rendered.
+ */
+function setMarker(cell: Cell, stale: boolean): void {
+  cell.toggleClass(STALE_CLASS, stale);
+  const prompt = cell.promptNode;
+  if (!prompt) {
+    return;
+  }
+  prompt.classList.toggle(STALE_PROMPT_CLASS, stale);
+  if (stale) {
+    prompt.title = 'Changed on disk since it was last run';
+  } else {
+    prompt.removeAttribute('title');
+  }
+}
@@ -0,0 +1,326 @@
+import { showPopup, Popup } from '@jupyterlab/statusbar';
+import { ISignal, Signal } from '@lumino/signaling';
+import { Widget } from '@lumino/widgets';
+
+/**
+ * Whether the watcher is running, paused by the user or disabled in settings
+ */
+export type RefreshState = 'active' | 'paused' | 'disabled';
+
+/**
+ * Something that happened to a watched file
+ */
+export interface IStatusEvent {
+  timestamp: number;
+  path: string;
+  message: string;
+}
+
+/**
+ * Number of recent events kept for the status popup
+ */
+const MAX_EVENTS = 50;
+
+/**
+ * Observable state of the auto-refresh watcher, shown in the status bar
+ */
+export class RefreshStatus {
+  private _state: RefreshState = 'active';
+  private _watchedPaths: string[] = [];
+  private _lastRefresh: number | null = null;
+  private _conflicts: Set<string> = new Set();
+  private _events: IStatusEvent[] = []; // newest first
+  private _changed = new Signal<this, void>(this);
+
+  /**
+   * A signal emitted whenever any part of the status changes
+   */
+  get changed(): ISignal<this, void> {
+    return this._changed;
+  }
+
+  /**
+   * The watcher state
+   */
+  get state(): RefreshState {
+    return this._state;
+  }
+
+  set state(value: RefreshState) {
+    if (value !== this._state) {
+      this._state = value;
+      this._changed.emit();
+    }
+  }
+
+  /**
+   * The paths currently being watched
+   */
+  get watchedPaths(): string[] {
+    return [...this._watchedPaths];
+  }
+
+  set watchedPaths(paths: string[]) {
+    const sorted = [...paths].sort();
+    if (
+      sorted.length === this._watchedPaths.length &&
+      sorted.every((path, index) => path === this._watchedPaths[index])
+    ) {
+      return;
+    }
+    this._watchedPaths = sorted;
+    this._changed.emit();
+  }
+
+  /**
+   * The time of the last external refresh, if any
+   */
+  get lastRefresh(): number | null {
+    return this._lastRefresh;
+  }
+
+  /**
+   * The paths with an unresolved conflict
+   */
+  get conflicts(): string[] {
+    return Array.from(this._conflicts).sort();
+  }
+
+  /**
+   * Recent events, newest first
+   */
+  get events(): IStatusEvent[] {
+    return [...this._events];
+  }
+
+  /**
+   * Record that a file was refreshed with external changes
+   */
+  recordRefresh(path: string, message = 'Refreshed from disk'): void {
+    this._lastRefresh = Date.now();
+    this._conflicts.delete(path);
+    this.addEvent(path, message);
+  }
+
+  /**
+   * Mark or clear an unresolved conflict for a path
+   */
+  setConflict(path: string, conflict: boolean): void {
+    if (conflict === this._conflicts.has(path)) {
+      return;
+    }
+    if (conflict) {
+      this._conflicts.add(path);
+    } else {
+      this._conflicts.delete(path);
+    }
+    this._changed.emit();
+  }
+
+  /**
+   * Record an event for a path
+   */
+  addEvent(path: string, message: string): void {
+    this._events.unshift({ timestamp: Date.now(), path, message });
+    this._events.splice(MAX_EVENTS);
+    this._changed.emit();
+  }
+}
+
+/**
+ * Status bar item showing the watcher state
+ *
+ * Clicking it opens a popup with the watched paths, recent events and a
+ * button to pause or resume watching.
+ */
+export class RefreshStatusItem extends Widget {
+  private _status: RefreshStatus;
+  private _togglePause: () => void;
+  private _popup: Popup | null = null;
+
+  constructor(status: RefreshStatus, togglePause: () => void) {
+    super();
+    this.addClass('jp-claude-code-refresh-status');
+    this._status = status;
+    this._togglePause = togglePause;
+    this._status.changed.connect(this._render, this);
+    this.node.addEventListener('click', this);
+    this._render();
+  }
+
+  /**
+   * Handle click events on the item
+   */
+  handleEvent(event: Event): void {
+    if (event.type !== 'click') {
+      return;
+    }
+    if (this._popup && !this._popup.isDisposed) {
+      this._popup.dispose();
+      return;
+    }
+    this._popup = showPopup({
+      body: new RefreshStatusPopup(this._status, this._togglePause),
+      anchor: this,
+      align: 'left',
+      hasDynamicSize: true
+    });
+  }
+
+  /**
+   * Dispose of the item and its popup
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this._popup?.dispose();
+    this._status.changed.disconnect(this._render, this);
+    this.node.removeEventListener('click', this);
+    super.dispose();
+  }
+
+  /**
+   * Render the state, watched file count, last refresh and conflict badge
+   */
+  private _render(): void {
+    const { state, lastRefresh } = this._status;
+    const count = this._status.watchedPaths.length;
+    const conflicts = this._status.conflicts.length;
+
+    this.node.textContent = '';
+    this.node.dataset.state = state;
+
+    const label = document.createElement('span');
+    if (state === 'active') {
+      label.textContent = `Auto-refresh: ${count} file${
+        count === 1 ? '' : 's'
+      }`;
+      if (lastRefresh) {
+        label.textContent += ` · ${formatTime(lastRefresh)}`;
+      }
+    } else {
+      label.textContent =
+        state === 'paused' ? 'Auto-refresh paused' : 'Auto-refresh off';
+    }
+    this.node.appendChild(label);
+
+    if (conflicts) {
+      const badge = document.createElement('span');
+      badge.className = 'jp-claude-code-refresh-status-badge';
+      badge.textContent = `⚠ ${conflicts}`;
+      this.node.appendChild(badge);
+    }
+
+    this.node.title = [
+      `Claude Code Auto-Refresh: ${state}`,
+      `${count} watched file${count === 1 ? '' : 's'}`,
+      lastRefresh ? `Last refresh at ${formatTime(lastRefresh)}` : '',
+      conflicts ? `${conflicts} unresolved conflict(s)` : '',
+      'Click for the watched files, recent events and pause'
+    ]
+      .filter(line => line)
+      .join('\n');
+  }
+}
+
+/**
+ * Popup body listing the watched paths and recent events
+ */
+class RefreshStatusPopup extends Widget {
+  private _status: RefreshStatus;
+  private _togglePause: () => void;
+
+  constructor(status: RefreshStatus, togglePause: () => void) {
+    super();
+    this.addClass('jp-claude-code-refresh-status-popup');
+    this._status = status;
+    this._togglePause = togglePause;
+    this._status.changed.connect(this._render, this);
+    this._render();
+  }
+
+  /**
+   * Dispose of the popup body
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this._status.changed.disconnect(this._render, this);
+    super.dispose();
+  }
+
+  /**
+   * Render the popup contents
+   */
+  private _render(): void {
+    const { state } = this._status;
+    this.node.textContent = '';
+
+    const header = document.createElement('div');
+    header.className = 'jp-claude-code-refresh-status-header';
+    const title = document.createElement('strong');
+    title.textContent = `Auto-refresh ${state}`;
+    header.appendChild(title);
+
+    const toggle = document.createElement('button');
+    toggle.className = 'jp-mod-styled jp-mod-accept';
+    toggle.textContent = state === 'paused' ? 'Resume' : 'Pause';
+    toggle.disabled = state === 'disabled';
+    toggle.addEventListener('click', () => this._togglePause());
+    header.appendChild(toggle);
+    this.node.appendChild(header);
+
+    this._renderList(
+      'Watched files',
+      this._status.watchedPaths.map(path => {
+        const conflict = this._status.conflicts.includes(path);
+        return conflict ? `⚠ ${path}` : path;
+      }),
+      'No open files are watched.'
+    );
+    this._renderList(
+      'Recent events',
+      this._status.events
+        .slice(0, 10)
+        .map(
+          event =>
+            `${formatTime(event.timestamp)} ${event.path}: ${event.message}`
+        ),
+      'Nothing has happened yet.'
+    );
+  }
+
+  /**
+   * Render a titled list, or a placeholder when it is empty
+   */
+  private _renderList(heading: string, items: string[], empty: string): void {
+    const title = document.createElement('h3');
+    title.textContent = heading;
+    this.node.appendChild(title);
+
+    if (!items.length) {
+      const placeholder = document.createElement('p');
+      placeholder.className = 'jp-claude-code-refresh-status-empty';
+      placeholder.textContent = empty;
+      this.node.appendChild(placeholder);
+      return;
+    }
+
+    const list = document.createElement('ul');
+    items.forEach(item => {
+      const entry = document.createElement('li');
+      entry.textContent = item;
+      list.appendChild(entry);
+    });
+    this.node.appendChild(list);
+  }
+}
+
+/**
+ * Format a timestamp as a local time of day
+ */
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString();
+}
@@ -0,0 +1,133 @@
+import { DocumentRegistry } from '@jupyterlab/docregistry';
+import { Token } from '@lumino/coreutils';
+import { IDisposable } from '@lumino/disposable';
+import { ISignal } from '@lumino/signaling';
+
+import { ChangeSource } from './attribution';
+import { DocumentLocks } from './lock';
+import { ConflictResolution } from './policy';
+
+/**
+ * An external change detected on an open document
+ */
+export interface IExternalChange {
+  path: string;
+  source: ChangeSource;
+}
+
+/**
+ * An automatic refresh about to happen, which listeners can cancel
+ *
+ * A cancelled refresh leaves the document as it is; the change is not
+ * reported again, but the document can still be refreshed by hand.
+ */
+export interface IBeforeRefresh extends IExternalChange {
+  readonly cancelled: boolean;
+  cancel(): void;
+}
+
+/**
+ * A document updated from disk
+ */
+export interface IRefreshed {
+  path: string;
+  merged: boolean; // merged with unsaved changes rather than reloaded
+  discardedLocalChanges: boolean;
+  backup?: string; // path of the copy of the discarded changes
+}
+
+/**
+ * An external change to a document with unsaved changes
+ */
+export interface IConflict extends IExternalChange {
+  resolution: ConflictResolution; // how the conflict is being handled
+}
+
+/**
+ * A custom conflict resolver
+ *
+ * Called when a document with unsaved changes is modified externally, it
+ * returns how to handle the conflict, or null to leave the decision to the
+ * next resolver and finally to the settings.
+ */
+export type ConflictResolver = (
+  conflict: IExternalChange,
+  context: DocumentRegistry.IContext<DocumentRegistry.IModel>
+) => ConflictResolution | null | Promise<ConflictResolution | null>;
+
+/**
+ * The Claude Code auto-refresh service
+ *
+ * Lets other extensions observe external changes and refreshes, veto
+ * automatic refreshes, pause watching and decide how conflicts are handled.
+ */
+export interface IClaudeCodeRefresh {
+  /**
+   * A signal emitted when an open document is changed on disk by another
+   * program
+   */
+  readonly externalChangeDetected: ISignal<IClaudeCodeRefresh, IExternalChange>;
+
+  /**
+   * A signal emitted before every automatic refresh; call `cancel()` on the
+   * argument to keep the document as it is
+   */
+  readonly beforeRefresh: ISignal<IClaudeCodeRefresh, IBeforeRefresh>;
+
+  /**
+   * A signal emitted once a document has been updated from disk
+   */
+  readonly refreshed: ISignal<IClaudeCodeRefresh, IRefreshed>;
+
+  /**
+   * A signal emitted when a document with unsaved changes is modified
+   * externally
+   */
+  readonly conflict: ISignal<IClaudeCodeRefresh, IConflict>;
+
+  /**
+   * The read-only locks of the open documents
+   */
+  readonly locks: DocumentLocks;
+
+  /**
+   * Whether watching is paused for all documents
+   */
+  paused: boolean;
+
+  /**
+   * Whether watching is paused for a single document
+   */
+  isPathPaused(path: string): boolean;
+
+  /**
+   * Pause or resume watching a single document
+   */
+  setPathPaused(path: string, paused: boolean): void;
+
+  /**
+   * Check every open document for changes now, even while paused
+   */
+  checkNow(): Promise<void>;
+
+  /**
+   * Reload a document from disk now
+   */
+  refreshNow(path: string): Promise<void>;
+
+  /**
+   * Register a conflict resolver
+   *
+   * The most recently registered resolvers are asked first. Dispose of the
+   * returned object to unregister it.
+   */
+  registerConflictResolver(resolver: ConflictResolver): IDisposable;
+}
+
+/**
+ * The Claude Code auto-refresh service token
+ */
+export const IClaudeCodeRefresh = new Token<IClaudeCodeRefresh>(
+  'jupyterlab-claude-code-refresh:IClaudeCodeRefresh',
+  'Observe and control the automatic refresh of documents changed on disk.'
+);
@@ -0,0 +1,163 @@
+import { CodeEditor } from '@jupyterlab/codeeditor';
+import { NotebookPanel } from '@jupyterlab/notebook';
+
+/**
+ * Where the user was in a notebook before a refresh
+ */
+export interface IViewState {
+  cellIds: string[];
+  activeCellId: string | null;
+  activeCellIndex: number;
+  scrollTop: number;
+  mode: 'command' | 'edit';
+  editorFocused: boolean;
+  selections: CodeEditor.IRange[];
+}
+
+/**
+ * Cursor and selections of a code editor before a refresh
+ */
+export interface IEditorState {
+  selections: CodeEditor.IRange[];
+  focused: boolean;
+}
+
+/**
+ * Get the element that scrolls the notebook cells
+ */
+function scrollNode(panel: NotebookPanel): HTMLElement {
+  const notebook = panel.content as any;
+  return notebook.outerNode ?? notebook.node;
+}
+
+/**
+ * Record the active cell, scroll offset and editor selections of a notebook
+ */
+export function captureViewState(panel: NotebookPanel): IViewState {
+  const notebook = panel.content;
+  const activeCell = notebook.activeCell;
+  const editor = activeCell?.editor ?? null;
+
+  return {
+    cellIds: notebook.widgets.map(cell => cell.model.id),
+    activeCellId: activeCell?.model.id ?? null,
+    activeCellIndex: notebook.activeCellIndex,
+    scrollTop: scrollNode(panel).scrollTop,
+    mode: notebook.mode,
+    editorFocused: !!editor && editor.hasFocus(),
+    selections: editor ? editor.getSelections() : []
+  };
+}
+
+/**
+ * Clamp a position to the content of an editor
+ */
+function clampPosition(
+  editor: CodeEditor.IEditor,
+  position: CodeEditor.IPosition
+): CodeEditor.IPosition {
+  const line = Math.max(0, Math.min(position.line, editor.lineCount - 1));
+  const length = editor.getLine(line)?.length ?? 0;
+  return { line, column: Math.max(0, Math.min(position.column, length)) };
+}
+
+/**
+ * Find the index of the cell to activate after a refresh
+ *
+ * The previously active cell is matched by ID. If it was deleted, the
+ * closest surviving neighbour (looking below first, then above) is used.
+ */
+function findActiveIndex(state: IViewState, cellIds: string[]): number {
+  if (!cellIds.length) {
+    return -1;
+  }
+
+  const indexById = new Map(cellIds.map((id, index) => [id, index]));
+  const origin = state.activeCellId
+    ? state.cellIds.indexOf(state.activeCellId)
+    : -1;
+
+  if (origin !== -1) {
+    for (let distance = 0; distance < state.cellIds.length; distance++) {
+      for (const candidate of [origin + distance, origin - distance]) {
+        const index = indexById.get(state.cellIds[candidate]);
+        if (index !== undefined) {
+          return index;
+        }
+      }
+    }
+  }
+
+  return Math.max(0, Math.min(state.activeCellIndex, cellIds.length - 1));
+}
+
+/**
+ * Restore a recorded view state on a notebook that has been reloaded
+ */
+export async function restoreViewState(
+  panel: NotebookPanel,
+  state: IViewState
+): Promise<void> {
+  const notebook = panel.content;
+  const cellIds = notebook.widgets.map(cell => cell.model.id);
+  const index = findActiveIndex(state, cellIds);
+
+  if (index === -1) {
+    return;
+  }
+
+  notebook.activeCellIndex = index;
+  const sameCell = cellIds[index] === state.activeCellId;
+
+  // Let the windowed list lay out the new cells before scrolling
+  await new Promise(resolve => requestAnimationFrame(resolve));
+  scrollNode(panel).scrollTop = state.scrollTop;
+
+  if (!sameCell) {
+    await notebook.scrollToCell(notebook.widgets[index]);
+    return;
+  }
+
+  const editor = notebook.activeCell?.editor;
+  if (!editor || !state.selections.length) {
+    return;
+  }
+
+  if (state.mode === 'edit') {
+    notebook.mode = 'edit';
+  }
+  restoreEditorState(editor, {
+    selections: state.selections,
+    focused: state.editorFocused
+  });
+}
+
+/**
+ * Record the selections of a plain text editor
+ */
+export function captureEditorState(editor: CodeEditor.IEditor): IEditorState {
+  return { selections: editor.getSelections(), focused: editor.hasFocus() };
+}
+
+/**
+ * Restore editor selections, clamped to the new content
+ */
+export function restoreEditorState(
+  editor: CodeEditor.IEditor,
+  state: IEditorState
+): void {
+  try {
+    editor.setSelections(
+      state.selections.map(range => ({
+        start: clampPosition(editor, range.start),
+        end: clampPosition(editor, range.end)
+      }))
+    );
+  } catch (error) {
+    // The content changed too much to place the cursor; leave it
+  }
+
+  if (state.focused) {
+    editor.focus();
+  }
+}
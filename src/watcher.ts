@@ -0,0 +1,192 @@
+import { URLExt } from '@jupyterlab/coreutils';
+import { ServerConnection } from '@jupyterlab/services';
+import { IDisposable } from '@lumino/disposable';
+import { ISignal, Signal } from '@lumino/signaling';
+
+import { ROUTE } from './handler';
+
+/**
+ * A file change pushed by the server extension
+ *
+ * `editing` and `edited` events relay the edits Claude Code announces
+ * through the edit endpoint before and after writing a file.
+ */
+export interface IFileChangeEvent {
+  type: 'modified' | 'deleted' | 'moved' | 'editing' | 'edited';
+  path: string;
+  newPath?: string;
+  mtime?: number;
+}
+
+/**
+ * Delay before reconnecting after the socket drops, doubled on each failure
+ */
+const RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Client of the server-side file watcher
+ *
+ * The server extension watches the open paths with watchdog and pushes an
+ * event over a websocket whenever one of them changes on disk.
+ */
+export class ServerFileWatcher implements IDisposable {
+  private _serverSettings: ServerConnection.ISettings;
+  private _socket: WebSocket | null = null;
+  private _paths: string[] = [];
+  private _changed = new Signal<this, IFileChangeEvent>(this);
+  private _connectionChanged = new Signal<this, boolean>(this);
+  private _reconnectDelay = RECONNECT_DELAY;
+  private _reconnectTimer: number | null = null;
+  private _isDisposed = false;
+
+  constructor(serverSettings?: ServerConnection.ISettings) {
+    this._serverSettings = serverSettings ?? ServerConnection.makeSettings();
+  }
+
+  /**
+   * A signal emitted for every file change reported by the server
+   */
+  get changed(): ISignal<this, IFileChangeEvent> {
+    return this._changed;
+  }
+
+  /**
+   * A signal emitted when the websocket connects or disconnects
+   */
+  get connectionChanged(): ISignal<this, boolean> {
+    return this._connectionChanged;
+  }
+
+  /**
+   * Whether the websocket is currently open
+   */
+  get isConnected(): boolean {
+    return this._socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Whether the watcher has been disposed
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Connect to the server extension
+   *
+   * Resolves false when the server extension (or watchdog) is not installed.
+   */
+  async connect(): Promise<boolean> {
+    try {
+      const response = await ServerConnection.makeRequest(
+        URLExt.join(this._serverSettings.baseUrl, ROUTE, 'status'),
+        {},
+        this._serverSettings
+      );
+      if (!response.ok) {
+        return false;
+      }
+      const status = await response.json();
+      if (!status.watcher) {
+        return false;
+      }
+    } catch (error) {
+      return false;
+    }
+
+    this._openSocket();
+    return true;
+  }
+
+  /**
+   * Set the full list of paths to watch
+   */
+  watch(paths: string[]): void {
+    const sorted = [...paths].sort();
+    if (
+      sorted.length === this._paths.length &&
+      sorted.every((path, index) => path === this._paths[index])
+    ) {
+      return;
+    }
+    this._paths = sorted;
+    this._sendPaths();
+  }
+
+  /**
+   * Dispose of the watcher and close the websocket
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+
+    if (this._reconnectTimer !== null) {
+      window.clearTimeout(this._reconnectTimer);
+      this._reconnectTimer = null;
+    }
+    if (this._socket) {
+      this._socket.onclose = null;
+      this._socket.close();
+      this._socket = null;
+    }
+    Signal.clearData(this);
+  }
+
+  /**
+   * Open the websocket and reconnect whenever it drops
+   */
+  private _openSocket(): void {
+    const settings = this._serverSettings;
+    let url = URLExt.join(settings.wsUrl, ROUTE, 'watch');
+    if (settings.appendToken && settings.token) {
+      url += `?token=${encodeURIComponent(settings.token)}`;
+    }
+
+    const socket = new settings.WebSocket(url);
+    this._socket = socket;
+
+    socket.onopen = () => {
+      this._reconnectDelay = RECONNECT_DELAY;
+      this._sendPaths();
+      this._connectionChanged.emit(true);
+    };
+
+    socket.onmessage = (message: MessageEvent) => {
+      try {
+        this._changed.emit(JSON.parse(message.data) as IFileChangeEvent);
+      } catch (error) {
+        console.warn('Claude Code Auto-Refresh: invalid watch event', error);
+      }
+    };
+
+    socket.onclose = () => {
+      this._socket = null;
+      this._connectionChanged.emit(false);
+      if (this._isDisposed) {
+        return;
+      }
+      this._reconnectTimer = window.setTimeout(() => {
+        this._reconnectTimer = null;
+        this._openSocket();
+      }, this._reconnectDelay);
+      this._reconnectDelay = Math.min(
+        this._reconnectDelay * 2,
+        MAX_RECONNECT_DELAY
+      );
+    };
+  }
+
+  /**
+   * Send the watched paths to the server
+   */
+  private _sendPaths(): void {
+    if (this.isConnected) {
+      this._socket.send(
+        JSON.stringify({ action: 'watch', paths: this._paths })
+      );
+    }
+  }
+}
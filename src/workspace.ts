@@ -0,0 +1,371 @@
+import { PathExt } from '@jupyterlab/coreutils';
+import * as nbformat from '@jupyterlab/nbformat';
+import { Contents, ServerConnection } from '@jupyterlab/services';
+import { IStateDB } from '@jupyterlab/statedb';
+import { ReadonlyJSONValue } from '@lumino/coreutils';
+import { IDisposable } from '@lumino/disposable';
+import { ISignal, Signal } from '@lumino/signaling';
+
+import { ChangeSource, fetchChangeSource } from './attribution';
+import { PollScheduler, runConcurrently } from './scheduler';
+
+/**
+ * A closed notebook changed on disk since it was last seen
+ */
+export interface IChangedFile {
+  path: string;
+  time: number; // when the change was detected
+  fileTime: number; // last modified time of the file on disk
+  source: ChangeSource;
+}
+
+/**
+ * Options of the workspace watcher
+ */
+export interface IWorkspaceWatcherOptions {
+  contents: Contents.IManager;
+  serverSettings?: ServerConnection.ISettings;
+
+  /**
+   * Whether a file is watched at all, read on every check
+   */
+  isWatched: (path: string) => boolean;
+
+  /**
+   * The paths of the open documents, which are watched in the editor instead
+   */
+  openPaths: () => string[];
+}
+
+/**
+ * Saved state of the workspace watcher
+ */
+interface IWorkspaceState {
+  seen: { [path: string]: number };
+  changed: IChangedFile[];
+}
+
+/**
+ * State database key of the saved workspace state
+ */
+const STATE_KEY = 'jupyterlab-claude-code-refresh:workspace';
+
+/**
+ * Base interval between two listings of a watched directory
+ */
+const POLL_INTERVAL = 10000;
+
+/**
+ * Number of directories listed at once
+ */
+const MAX_CONCURRENT_LISTINGS = 4;
+
+/**
+ * Maximum number of changed files kept, the oldest being dropped first
+ */
+const MAX_CHANGED_FILES = 200;
+
+/**
+ * Maximum number of notebook versions kept in memory for the diff
+ */
+const MAX_SEEN_CONTENTS = 20;
+
+/**
+ * Delay before saving the state after a change, to batch bursts of changes
+ */
+const SAVE_DELAY = 1000;
+
+/**
+ * Watcher of the closed notebooks in a set of directories
+ *
+ * Lists the watched directories with the adaptive polling scheduler and
+ * reports the notebooks whose timestamp moved since they were last seen,
+ * either listed or open in the editor. The timestamps and the changed files
+ * are kept across reloads in the state database, when available, so changes
+ * made while JupyterLab was closed are reported too. The notebook content
+ * last seen in the editor is only kept in memory, for a few notebooks.
+ */
+export class WorkspaceWatcher implements IDisposable {
+  private _options: IWorkspaceWatcherOptions;
+  private _directories: string[] = [];
+  private _seen = new Map<string, number>(); // path -> last modified time last seen
+  private _contents = new Map<string, nbformat.INotebookContent>(); // path -> content last seen in the editor
+  private _files = new Map<string, IChangedFile>(); // oldest first
+  private _changed = new Signal<this, void>(this);
+  private _scheduler: PollScheduler;
+  private _state: IStateDB | null = null;
+  private _saveTimer: number | null = null;
+  private _isDisposed = false;
+
+  constructor(options: IWorkspaceWatcherOptions) {
+    this._options = options;
+    this._scheduler = new PollScheduler({
+      interval: () => POLL_INTERVAL,
+      tick: () => this._check(this._scheduler.duePaths(this._directories))
+    });
+  }
+
+  /**
+   * A signal emitted when the changed files change
+   */
+  get changed(): ISignal<this, void> {
+    return this._changed;
+  }
+
+  /**
+   * The changed files, most recent first
+   */
+  get files(): IChangedFile[] {
+    return Array.from(this._files.values()).reverse();
+  }
+
+  /**
+   * The watched directories, relative to the server root
+   */
+  get directories(): string[] {
+    return this._directories;
+  }
+  set directories(value: string[]) {
+    this._directories = Array.from(
+      new Set(
+        value.map(directory => {
+          const normalized = PathExt.normalize(directory.trim());
+          return normalized === '.' ? '' : normalized;
+        })
+      )
+    );
+  }
+
+  /**
+   * Whether the watcher has been disposed
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * The change of a file, if it changed since it was last seen
+   */
+  get(path: string): IChangedFile | undefined {
+    return this._files.get(path);
+  }
+
+  /**
+   * The notebook content last seen in the editor, if still known
+   */
+  lastSeenContent(path: string): nbformat.INotebookContent | undefined {
+    return this._contents.get(path);
+  }
+
+  /**
+   * Restore the saved state and save every change from now on
+   */
+  async restore(state: IStateDB): Promise<void> {
+    this._state = state;
+    const saved = (await state.fetch(STATE_KEY)) as unknown as
+      | IWorkspaceState
+      | undefined;
+    if (!saved?.seen || !Array.isArray(saved.changed)) {
+      return;
+    }
+
+    Object.entries(saved.seen).forEach(([path, time]) => {
+      if (!this._seen.has(path)) {
+        this._seen.set(path, time);
+      }
+    });
+    const files = new Map(saved.changed.map(file => [file.path, file]));
+    this._files.forEach(file => {
+      files.delete(file.path);
+      files.set(file.path, file);
+    });
+    this._files = files;
+    this._changed.emit();
+  }
+
+  /**
+   * Start listing the watched directories
+   */
+  start(): void {
+    this._scheduler.start();
+  }
+
+  /**
+   * List every watched directory now
+   */
+  async checkNow(): Promise<void> {
+    await this._check(this._directories);
+  }
+
+  /**
+   * Record a version of a file seen in the editor
+   *
+   * Clears the change of the file. Without a timestamp, the timestamp
+   * last seen is kept.
+   */
+  seen(
+    path: string,
+    fileTime?: number,
+    content?: nbformat.INotebookContent
+  ): void {
+    if (fileTime !== undefined) {
+      this._seen.set(path, fileTime);
+      this._scheduleSave();
+    }
+    if (content) {
+      this._contents.delete(path);
+      this._contents.set(path, content);
+      if (this._contents.size > MAX_SEEN_CONTENTS) {
+        this._contents.delete(this._contents.keys().next().value);
+      }
+    }
+    this.dismiss(path);
+  }
+
+  /**
+   * Forget the change of a file
+   */
+  dismiss(path: string): void {
+    if (this._files.delete(path)) {
+      this._changed.emit();
+      this._scheduleSave();
+    }
+  }
+
+  /**
+   * Forget every change
+   */
+  clear(): void {
+    this._files.clear();
+    this._changed.emit();
+    this._scheduleSave();
+  }
+
+  /**
+   * Stop watching
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this._scheduler.dispose();
+    if (this._saveTimer !== null) {
+      window.clearTimeout(this._saveTimer);
+      this._saveTimer = null;
+    }
+    this._contents.clear();
+    Signal.clearData(this);
+  }
+
+  /**
+   * List directories, a failure on one not stopping the others
+   */
+  private async _check(directories: string[]): Promise<void> {
+    await runConcurrently(
+      directories,
+      MAX_CONCURRENT_LISTINGS,
+      async directory => {
+        let changed = false;
+        try {
+          changed = await this._checkDirectory(directory);
+        } catch (error) {
+          console.warn(
+            'Claude Code Auto-Refresh: could not list',
+            directory,
+            error
+          );
+        }
+        this._scheduler.record(directory, changed);
+      }
+    );
+  }
+
+  /**
+   * Compare the notebooks of a directory with the versions last seen
+   *
+   * Resolves whether any notebook changed. Notebooks listed for the first
+   * time are only recorded, and open ones are left to the editor.
+   */
+  private async _checkDirectory(directory: string): Promise<boolean> {
+    const listing = await this._options.contents.get(directory, {
+      type: 'directory',
+      content: true
+    });
+    const notebooks = (listing.content as Contents.IModel[]).filter(
+      item => item.type === 'notebook'
+    );
+    const open = new Set(this._options.openPaths());
+
+    // Forget the notebooks deleted since the last listing
+    const listed = new Set(notebooks.map(item => item.path));
+    let removed = false;
+    Array.from(this._seen.keys())
+      .filter(path => PathExt.dirname(path) === directory && !listed.has(path))
+      .forEach(path => {
+        this._seen.delete(path);
+        removed = this._files.delete(path) || removed;
+      });
+
+    let changed = false;
+    for (const item of notebooks) {
+      if (open.has(item.path) || !this._options.isWatched(item.path)) {
+        continue;
+      }
+
+      // Any timestamp change (not just a newer one) may be a new version
+      const fileTime = new Date(item.last_modified).getTime();
+      const seen = this._seen.get(item.path);
+      this._seen.set(item.path, fileTime);
+      if (seen === undefined || seen === fileTime) {
+        continue;
+      }
+
+      changed = true;
+      const source = await fetchChangeSource(
+        item.path,
+        this._options.serverSettings
+      );
+      this._files.delete(item.path);
+      this._files.set(item.path, {
+        path: item.path,
+        time: Date.now(),
+        fileTime,
+        source
+      });
+      if (this._files.size > MAX_CHANGED_FILES) {
+        this._files.delete(this._files.keys().next().value);
+      }
+    }
+
+    if (changed || removed) {
+      this._changed.emit();
+    }
+    this._scheduleSave();
+    return changed;
+  }
+
+  /**
+   * Save the state to the state database shortly
+   */
+  private _scheduleSave(): void {
+    if (!this._state || this._saveTimer !== null) {
+      return;
+    }
+    this._saveTimer = window.setTimeout(() => {
+      this._saveTimer = null;
+      const state: IWorkspaceState = {
+        seen: {},
+        changed: Array.from(this._files.values())
+      };
+      this._seen.forEach((time, path) => {
+        state.seen[path] = time;
+      });
+      this._state
+        ?.save(STATE_KEY, state as unknown as ReadonlyJSONValue)
+        .catch(error =>
+          console.warn('Claude Code Auto-Refresh: could not save state', error)
+        );
+    }, SAVE_DELAY);
+  }
+}